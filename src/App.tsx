@@ -1,6 +1,12 @@
 /* eslint-disable react-hooks/exhaustive-deps */
 /* eslint-disable jsx-a11y/control-has-associated-label */
-import { ArrowLeftIcon, InformationCircleIcon } from '@heroicons/react/outline'
+import {
+  ArrowLeftIcon,
+  DatabaseIcon,
+  InformationCircleIcon,
+  UploadIcon,
+  XIcon,
+} from '@heroicons/react/outline'
 import { useEffect, useRef, useState } from 'react'
 import { useClickAway } from 'react-use'
 import Button from './components/Button'
@@ -8,32 +14,133 @@ import FileSelect from './components/FileSelect'
 import Modal from './components/Modal'
 import Editor from './Editor'
 import VideoEditor from './VideoEditor'
+import CacheManager from './CacheManager'
 import { resizeImageFile } from './utils'
 import Progress from './components/Progress'
 import { downloadModel } from './adapters/cache'
+import { releaseSessions } from './adapters/session'
+import {
+  deleteProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  newProjectId,
+  setLastProjectId,
+} from './projects'
+import type { LoadedProject, ProjectSummary } from './projects'
+import { importBundle } from './bundle'
 import * as m from './paraglide/messages'
 import { languageTag, setLanguageTag } from './paraglide/runtime'
 
 function App() {
   const [file, setFile] = useState<File>()
   const [videoFile, setVideoFile] = useState<File>()
+  const [projectId, setProjectId] = useState<string>()
+  const [project, setProject] = useState<LoadedProject>()
+  // the upload when the editor works on a scaled down copy
+  const [fullSize, setFullSize] = useState<File>()
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([])
 
   const [showAbout, setShowAbout] = useState(false)
   const modalRef = useRef(null)
+  const [showCache, setShowCache] = useState(false)
+  const cacheRef = useRef(null)
+  const bundleInput = useRef<HTMLInputElement>(null)
 
   const [downloadProgress, setDownloadProgress] = useState(100)
 
   useEffect(() => {
-    downloadModel('inpaint', setDownloadProgress)
+    // close the modal even when the download failed, so a model can still be
+    // imported from file in the cache manager
+    downloadModel('inpaint', setDownloadProgress).then(() =>
+      setDownloadProgress(100)
+    )
   }, [])
 
+  // each workflow creates the sessions it needs, free the others' memory
+  useEffect(() => {
+    releaseSessions()
+  }, [file, videoFile])
+
+  function openImage(
+    f: File,
+    restored?: LoadedProject,
+    upload = restored?.fullSize
+  ) {
+    const id = restored?.id ?? newProjectId()
+    setLastProjectId(id)
+    setProjectId(id)
+    setProject(restored)
+    setFullSize(upload)
+    setFile(f)
+  }
+
+  async function importProject(bundle?: File) {
+    if (!bundle) {
+      return
+    }
+    try {
+      const imported = await importBundle(bundle)
+      openImage(imported.source, imported)
+    } catch (e) {
+      alert(`error: ${(e as Error).message}`)
+    }
+  }
+
+  async function openProject(id: string) {
+    try {
+      const restored = await loadProject(id)
+      if (!restored) {
+        throw new Error(m.project_missing())
+      }
+      openImage(restored.source, restored)
+    } catch (e) {
+      alert(`error: ${(e as Error).message}`)
+    }
+  }
+
+  async function removeProject(id: string) {
+    await deleteProject(id)
+    setRecentProjects(await listProjects())
+  }
+
+  // pick the session back up after a reload or crash
+  useEffect(() => {
+    const lastId = getLastProjectId()
+    if (!lastId) {
+      return
+    }
+    loadProject(lastId)
+      .then(restored => {
+        if (restored) {
+          openImage(restored.source, restored)
+        } else {
+          setLastProjectId()
+        }
+      })
+      .catch(e => {
+        console.error('restoring the last project failed', e)
+        setLastProjectId()
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!file && !videoFile) {
+      listProjects().then(setRecentProjects)
+    }
+  }, [file, videoFile])
+
   useClickAway(modalRef, () => {
     setShowAbout(false)
   })
 
+  useClickAway(cacheRef, () => {
+    setShowCache(false)
+  })
+
   async function startWithDemoImage(img: string) {
     const imgBlob = await fetch(`/examples/${img}.jpeg`).then(r => r.blob())
-    setFile(new File([imgBlob], `${img}.jpeg`, { type: 'image/jpeg' }))
+    openImage(new File([imgBlob], `${img}.jpeg`, { type: 'image/jpeg' }))
   }
 
   return (
@@ -46,6 +153,7 @@ function App() {
           ].join(' ')}
           icon={<ArrowLeftIcon className="w-6 h-6" />}
           onClick={() => {
+            setLastProjectId()
             setFile(undefined)
             setVideoFile(undefined)
           }}
@@ -72,6 +180,15 @@ function App() {
           >
             <p>{languageTag() === 'en' ? '切换到中文' : 'en'}</p>
           </Button>
+          <Button
+            className="mr-5 flex"
+            icon={<DatabaseIcon className="w-6 h-6" />}
+            onClick={() => {
+              setShowCache(true)
+            }}
+          >
+            <p>{m.cache_manager()}</p>
+          </Button>
           <Button
             className="w-38 flex sm:visible"
             icon={<InformationCircleIcon className="w-6 h-6" />}
@@ -90,8 +207,14 @@ function App() {
         }}
         className=" relative"
       >
-        {file ? (
-          <Editor file={file} />
+        {file && projectId ? (
+          <Editor
+            key={projectId}
+            file={file}
+            fullSize={fullSize}
+            projectId={projectId}
+            project={project}
+          />
         ) : (
           <>
             {videoFile ? (
@@ -107,11 +230,13 @@ function App() {
                     <div className="h-72">
                       <FileSelect
                         onSelection={async f => {
-                          const { file: resizedFile } = await resizeImageFile(
-                            f,
-                            1024 * 4
+                          const { file: resizedFile, resized } =
+                            await resizeImageFile(f, 1024 * 4)
+                          openImage(
+                            resizedFile,
+                            undefined,
+                            resized ? f : undefined
                           )
-                          setFile(resizedFile)
                         }}
                       />
                     </div>
@@ -166,6 +291,62 @@ function App() {
                     ))}
                   </div>
                 </div>
+
+                <div className="flex pt-6 items-center justify-center">
+                  <Button
+                    icon={<UploadIcon className="w-6 h-6" />}
+                    onClick={() => bundleInput.current?.click()}
+                  >
+                    {m.import_project()}
+                  </Button>
+                  <input
+                    ref={bundleInput}
+                    type="file"
+                    accept=".zip,application/zip"
+                    className="hidden"
+                    onChange={ev => {
+                      importProject(ev.currentTarget.files?.[0])
+                      ev.currentTarget.value = ''
+                    }}
+                  />
+                </div>
+
+                {recentProjects.length > 0 && (
+                  <div className="flex flex-col sm:flex-row pt-6 items-center justify-center">
+                    <span className="text-gray-500">{m.recent_projects()}</span>
+                    <div className="flex space-x-2 sm:space-x-4 px-4">
+                      {recentProjects.map(recent => (
+                        <div key={recent.id} className="relative">
+                          <div
+                            className="cursor-pointer"
+                            onClick={() => openProject(recent.id)}
+                            role="button"
+                            onKeyDown={() => openProject(recent.id)}
+                            tabIndex={-1}
+                            title={`${recent.name} ${new Date(
+                              recent.updatedAt
+                            ).toLocaleString()}`}
+                          >
+                            <img
+                              className="rounded-md hover:opacity-75 w-auto h-25"
+                              src={recent.thumbnail}
+                              alt={recent.name}
+                              style={{ height: '100px' }}
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            className="absolute top-1 right-1 rounded-full bg-black bg-opacity-50 text-white"
+                            aria-label={m.delete_project()}
+                            onClick={() => removeProject(recent.id)}
+                          >
+                            <XIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </>
@@ -204,6 +385,13 @@ function App() {
           </div>
         </Modal>
       )}
+      {showCache && (
+        <Modal>
+          <div ref={cacheRef}>
+            <CacheManager />
+          </div>
+        </Modal>
+      )}
       {!(downloadProgress === 100) && (
         <Modal>
           <div className="text-xl space-y-5">
@@ -0,0 +1,263 @@
+import {
+  TrashIcon,
+  CloudDownloadIcon,
+  RefreshIcon,
+} from '@heroicons/react/outline'
+import { useCallback, useEffect, useState } from 'react'
+import Button from './components/Button'
+import Progress from './components/Progress'
+import {
+  deleteModel,
+  downloadAllModels,
+  getCachedModels,
+  getStorageEstimate,
+  importModel,
+  refreshModel,
+} from './adapters/cache'
+import type { CachedModel, modelType } from './adapters/cache'
+import {
+  findModelByFileName,
+  getModelList,
+  modelTypes,
+} from './adapters/models'
+import {
+  getSourceConfig,
+  resetSourceConfig,
+  setSourceConfig,
+} from './adapters/config'
+import * as m from './paraglide/messages'
+
+function formatSize(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export default function CacheManager() {
+  const [models, setModels] = useState<CachedModel[]>([])
+  const [storage, setStorage] = useState<{ usage: number; quota: number }>()
+  const [downloading, setDownloading] = useState<string>()
+  const [downloadProgress, setDownloadProgress] = useState(0)
+  const [sources, setSources] = useState(getSourceConfig)
+  const [importFile, setImportFile] = useState<File>()
+  const [importTarget, setImportTarget] = useState('inpaint/migan-pipeline-v2')
+  const [importError, setImportError] = useState('')
+
+  const refresh = useCallback(async () => {
+    setModels(await getCachedModels())
+    setStorage((await getStorageEstimate()) ?? undefined)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const onDelete = useCallback(
+    async (model: CachedModel) => {
+      await deleteModel(model.modelType, model.name)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const onRefresh = useCallback(
+    async (model: CachedModel) => {
+      setDownloading(model.label)
+      await refreshModel(model.modelType, setDownloadProgress, model.name)
+      setDownloading(undefined)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const onDownloadAll = useCallback(async () => {
+    await downloadAllModels((label, progress) => {
+      setDownloading(label)
+      setDownloadProgress(progress)
+    })
+    setDownloading(undefined)
+    await refresh()
+  }, [refresh])
+
+  const onImportFileChange = useCallback((file?: File) => {
+    setImportFile(file)
+    setImportError('')
+    const match = file && findModelByFileName(file.name)
+    if (match) {
+      setImportTarget(`${match.modelType}/${match.name}`)
+    }
+  }, [])
+
+  const onImport = useCallback(async () => {
+    if (!importFile) {
+      return
+    }
+    const [type, name] = importTarget.split('/')
+    try {
+      await importModel(type as modelType, name, importFile)
+      setImportFile(undefined)
+      setImportError('')
+    } catch (e) {
+      setImportError((e as Error).message)
+    }
+    await refresh()
+  }, [importFile, importTarget, refresh])
+
+  const onSaveSources = useCallback(() => {
+    setSourceConfig(sources)
+    // the runtime script is injected once at startup
+    window.location.reload()
+  }, [sources])
+
+  const onResetSources = useCallback(() => {
+    resetSourceConfig()
+    window.location.reload()
+  }, [])
+
+  return (
+    <div className="space-y-5 text-base">
+      <h2 className="text-xl font-semibold">{m.cache_manager()}</h2>
+      {models.length === 0 ? (
+        <p>{m.cache_empty()}</p>
+      ) : (
+        <table className="w-full text-left">
+          <tbody>
+            {models.map(model => (
+              <tr key={model.name} className="border-b border-black/10">
+                <td className="py-2 pr-4">
+                  <p className="font-semibold">{model.label}</p>
+                  <p className="text-sm text-gray-600">
+                    {model.modelType} v{model.version}
+                  </p>
+                </td>
+                <td className="py-2 pr-4 whitespace-nowrap">
+                  {formatSize(model.byteLength)}
+                </td>
+                <td
+                  className="py-2 pr-4 max-w-xs truncate text-sm"
+                  title={model.url}
+                >
+                  {model.url}
+                </td>
+                <td className="py-2 pr-4 text-sm whitespace-nowrap">
+                  {model.downloadedAt
+                    ? new Date(model.downloadedAt).toLocaleString()
+                    : '-'}
+                </td>
+                <td
+                  className={[
+                    'py-2 pr-4 text-sm',
+                    model.verification === 'corrupted' ? 'text-red-600' : '',
+                  ].join(' ')}
+                >
+                  {model.verification}
+                </td>
+                <td className="py-2 whitespace-nowrap">
+                  <Button
+                    disabled={!!downloading}
+                    icon={<RefreshIcon className="w-5 h-5" />}
+                    onClick={() => onRefresh(model)}
+                  >
+                    {m.cache_refresh()}
+                  </Button>
+                  <Button
+                    disabled={!!downloading}
+                    icon={<TrashIcon className="w-5 h-5" />}
+                    onClick={() => onDelete(model)}
+                  >
+                    {m.cache_delete()}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {downloading && (
+        <div className="space-y-2">
+          <p>{downloading}</p>
+          <Progress percent={downloadProgress} />
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <span className="text-sm">
+          {storage
+            ? `${m.cache_storage()}: ${formatSize(
+                storage.usage
+              )} / ${formatSize(storage.quota)}`
+            : ''}
+        </span>
+        <Button
+          primary
+          disabled={!!downloading}
+          icon={<CloudDownloadIcon className="w-6 h-6" />}
+          onClick={onDownloadAll}
+        >
+          {m.cache_download_all()}
+        </Button>
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold">{m.cache_import()}</h3>
+        <div className="flex items-center space-x-4">
+          <input
+            type="file"
+            accept=".onnx"
+            className="flex-1"
+            onChange={ev => onImportFileChange(ev.currentTarget.files?.[0])}
+          />
+          <select
+            className="rounded-md border border-gray-300 py-2 px-3 bg-white"
+            value={importTarget}
+            onChange={ev => setImportTarget(ev.currentTarget.value)}
+          >
+            {modelTypes.map(type =>
+              getModelList(type).map(model => (
+                <option
+                  key={`${type}/${model.name}`}
+                  value={`${type}/${model.name}`}
+                >
+                  {model.label}
+                </option>
+              ))
+            )}
+          </select>
+          <Button disabled={!importFile} onClick={onImport}>
+            {m.cache_import_button()}
+          </Button>
+        </div>
+        {importError && <p className="text-red-600 text-sm">{importError}</p>}
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold">{m.source_settings()}</h3>
+        <label className="flex items-center space-x-4">
+          <span className="w-40">{m.source_model_mirror()}</span>
+          <input
+            className="flex-1 rounded-md border border-gray-300 py-1 px-2"
+            placeholder="https://huggingface.co"
+            value={sources.modelBaseUrl}
+            onChange={ev =>
+              setSources({ ...sources, modelBaseUrl: ev.currentTarget.value })
+            }
+          />
+        </label>
+        <label className="flex items-center space-x-4">
+          <span className="w-40">{m.source_runtime()}</span>
+          <input
+            className="flex-1 rounded-md border border-gray-300 py-1 px-2"
+            value={sources.runtimeBaseUrl}
+            onChange={ev =>
+              setSources({
+                ...sources,
+                runtimeBaseUrl: ev.currentTarget.value,
+              })
+            }
+          />
+        </label>
+        <div className="flex justify-end space-x-2">
+          <Button onClick={onResetSources}>{m.source_reset()}</Button>
+          <Button primary onClick={onSaveSources}>
+            {m.source_save()}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
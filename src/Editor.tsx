@@ -1,60 +1,170 @@
 /* eslint-disable jsx-a11y/click-events-have-key-events */
 /* eslint-disable jsx-a11y/no-static-element-interactions */
-import { DownloadIcon, EyeIcon, ViewBoardsIcon } from '@heroicons/react/outline'
+import {
+  ArchiveIcon,
+  DownloadIcon,
+  EyeIcon,
+  ViewBoardsIcon,
+  XIcon,
+} from '@heroicons/react/outline'
 import { useCallback, useEffect, useState, useRef, useMemo } from 'react'
 import { useWindowSize } from 'react-use'
 import inpaint from './adapters/inpainting'
 import superResolution from './adapters/superResolution'
+import segment from './adapters/segmentation'
 import Button from './components/Button'
 import Slider from './components/Slider'
-import { downloadImage, loadImage, useImage } from './utils'
+import {
+  baseName,
+  dataURItoBlob,
+  downloadBlob,
+  downloadImage,
+  loadImage,
+  useImage,
+} from './utils'
 import Progress from './components/Progress'
 import { modelExists, downloadModel } from './adapters/cache'
+import type { modelType } from './adapters/cache'
+import type { inferenceStage } from './adapters/inferenceProtocol'
+import { isAbortError } from './adapters/inferenceClient'
+import { getModel, getModelList, setCurrentModel } from './adapters/models'
+import {
+  defaultMaskRefinement,
+  featherMask,
+  isMaskReshaped,
+  refineMask,
+  selectSimilar,
+} from './adapters/mask'
+import type { MaskRefinement } from './adapters/mask'
+import { detectTextRegions } from './adapters/textDetection'
+import type { TextRegion } from './adapters/textDetection'
 import Modal from './components/Modal'
+import {
+  addPoint,
+  drawLines,
+  drawPrompts,
+  drawStrokes,
+  isClosingPoint,
+  isDrawable,
+  loadMask,
+  scaleLines,
+  shapeTools,
+} from './shapes'
+import type { Line, maskTool, Point } from './shapes'
+import { getRenderInfo, saveProject, setRenderInfo } from './projects'
+import { exportBundle } from './bundle'
+import {
+  canRestoreResolution,
+  defaultExportOptions,
+  exportFileName,
+  exportImage,
+  restoreResolution,
+} from './export'
+import type { ExportOptions } from './export'
+import ExportDialog from './ExportDialog'
+import type { LoadedProject } from './projects'
 import * as m from './paraglide/messages'
 
 interface EditorProps {
   file: File
+  // the upload at its own resolution when `file` is a scaled down copy,
+  // downloads replay the edits on it
+  fullSize?: File
+  // key the session is saved under
+  projectId: string
+  // a saved session to pick up again
+  project?: LoadedProject
 }
 
-interface Line {
-  size?: number
-  pts: { x: number; y: number }[]
-  src: string
-}
-
-function drawLines(
+// show strokes the way they will be sent to the model, scale converts the
+// refinement from image to display pixels
+function drawMaskPreview(
   ctx: CanvasRenderingContext2D,
   lines: Line[],
-  color = 'rgba(255, 0, 0, 0.5)'
+  refinement: MaskRefinement,
+  scale: number
 ) {
-  ctx.strokeStyle = color
-  ctx.lineCap = 'round'
-  ctx.lineJoin = 'round'
+  const mask = document.createElement('canvas')
+  mask.width = ctx.canvas.width
+  mask.height = ctx.canvas.height
+  drawLines(mask.getContext('2d')!, lines, 'white')
+  const effective = featherMask(
+    refineMask(mask, refinement, scale),
+    refinement.feather * scale
+  )
+  const effectiveCtx = effective.getContext('2d')!
+  effectiveCtx.globalCompositeOperation = 'source-in'
+  effectiveCtx.fillStyle = 'rgba(255, 0, 0, 0.5)'
+  effectiveCtx.fillRect(0, 0, effective.width, effective.height)
+  ctx.drawImage(effective, 0, 0)
+}
 
-  lines.forEach(line => {
-    if (!line?.pts.length || !line.size) {
-      return
-    }
-    ctx.lineWidth = line.size
-    ctx.beginPath()
-    ctx.moveTo(line.pts[0].x, line.pts[0].y)
-    line.pts.forEach(pt => ctx.lineTo(pt.x, pt.y))
-    ctx.stroke()
-  })
+// an edit taken back by undo, kept until a new edit is made
+interface HistoryStep {
+  line: Line
+  // the inpaint or upscale result the line led to, missing for strokes that
+  // were not run
+  render?: HTMLImageElement
+}
+
+const tools: maskTool[] = [...shapeTools, 'wand', 'segment']
+
+const toolLabels: Record<maskTool, () => string> = {
+  brush: m.tool_brush,
+  rectangle: m.tool_rectangle,
+  ellipse: m.tool_ellipse,
+  lasso: m.tool_lasso,
+  polygon: m.tool_polygon,
+  wand: m.tool_wand,
+  segment: m.tool_segment,
+}
+
+function UndoIcon({ className }: { className: string }) {
+  return (
+    <svg
+      className={className}
+      width="19"
+      height="9"
+      viewBox="0 0 19 9"
+      fill="none"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <path
+        d="M2 1C2 0.447715 1.55228 0 1 0C0.447715 0 0 0.447715 0 1H2ZM1 8H0V9H1V8ZM8 9C8.55228 9 9 8.55229 9 8C9 7.44771 8.55228 7 8 7V9ZM16.5963 7.42809C16.8327 7.92721 17.429 8.14016 17.9281 7.90374C18.4272 7.66731 18.6402 7.07103 18.4037 6.57191L16.5963 7.42809ZM16.9468 5.83205L17.8505 5.40396L16.9468 5.83205ZM0 1V8H2V1H0ZM1 9H8V7H1V9ZM1.66896 8.74329L6.66896 4.24329L5.33104 2.75671L0.331035 7.25671L1.66896 8.74329ZM16.043 6.26014L16.5963 7.42809L18.4037 6.57191L17.8505 5.40396L16.043 6.26014ZM6.65079 4.25926C9.67554 1.66661 14.3376 2.65979 16.043 6.26014L17.8505 5.40396C15.5805 0.61182 9.37523 -0.710131 5.34921 2.74074L6.65079 4.25926Z"
+        fill="currentColor"
+      />
+    </svg>
+  )
 }
 
 const BRUSH_HIDE_ON_SLIDER_CHANGE_TIMEOUT = 2000
+const PROJECT_SAVE_DELAY = 1000
 export default function Editor(props: EditorProps) {
-  const { file } = props
-  const [brushSize, setBrushSize] = useState(40)
+  const { file, fullSize, projectId, project } = props
+  const [brushSize, setBrushSize] = useState(project?.settings.brushSize ?? 40)
   const [original, isOriginalLoaded] = useImage(file)
-  const [renders, setRenders] = useState<HTMLImageElement[]>([])
+  const [renders, setRenders] = useState<HTMLImageElement[]>(
+    project?.renders ?? []
+  )
   const [context, setContext] = useState<CanvasRenderingContext2D>()
   const [maskCanvas] = useState<HTMLCanvasElement>(() => {
     return document.createElement('canvas')
   })
   const [lines, setLines] = useState<Line[]>([{ pts: [], src: '' }])
+  // strokes waiting for an explicit run when not removing on release
+  const [pendingLines, setPendingLines] = useState<Line[]>([])
+  const [redoStack, setRedoStack] = useState<HistoryStep[]>([])
+  const [autoRun, setAutoRun] = useState(project?.settings.autoRun ?? true)
+  const [downscale, setDownscale] = useState(
+    project?.settings.downscale ?? false
+  )
+  const [erasing, setErasing] = useState(false)
+  const [tool, setTool] = useState<maskTool>('brush')
+  const [wandTolerance, setWandTolerance] = useState(32)
+  // detected text regions waiting for confirmation, in image pixels
+  const [textCandidates, setTextCandidates] = useState<
+    { region: TextRegion; accepted: boolean }[]
+  >([])
   const brushRef = useRef<HTMLDivElement>(null)
   const [showBrush, setShowBrush] = useState(false)
   const [hideBrushTimeout, setHideBrushTimeout] = useState(0)
@@ -62,6 +172,7 @@ export default function Editor(props: EditorProps) {
   const [isInpaintingLoading, setIsProcessingLoading] = useState(false)
   const [generateProgress, setGenerateProgress] = useState(0)
   const modalRef = useRef(null)
+  const jobRef = useRef<AbortController>()
   const [separator, setSeparator] = useState<HTMLDivElement>()
   const [useSeparator, setUseSeparator] = useState(false)
   const [originalImg, setOriginalImg] = useState<HTMLDivElement>()
@@ -70,8 +181,19 @@ export default function Editor(props: EditorProps) {
   const isBrushSizeChange = useRef<boolean>(false)
   const scaledBrushSize = useMemo(() => brushSize, [brushSize])
   const canvasDiv = useRef<HTMLDivElement>(null)
-  const [downloaded, setDownloaded] = useState(true)
+  const maskInput = useRef<HTMLInputElement>(null)
+  const [showExport, setShowExport] = useState(false)
+  const [exportOptions, setExportOptions] = useState(defaultExportOptions)
+  const [downloading, setDownloading] = useState<modelType>()
+  const [inpaintModel, setInpaintModel] = useState(
+    () => getModel('inpaint').name
+  )
   const [downloadProgress, setDownloadProgress] = useState(0)
+  const [maskRefinement, setMaskRefinement] = useState(
+    project?.settings.maskRefinement ?? defaultMaskRefinement
+  )
+  const [showMaskPreview, setShowMaskPreview] = useState(false)
+  const maskPreviewTimeout = useRef(0)
   const windowSize = useWindowSize()
 
   const draw = useCallback(
@@ -113,26 +235,219 @@ export default function Editor(props: EditorProps) {
       } else {
         context.drawImage(original, 0, 0, canvas.width, canvas.height)
       }
-      const currentLine = lines[lines.length - 1]
-      drawLines(context, [currentLine])
+      const strokes = [...pendingLines, lines[lines.length - 1]].filter(
+        line => line?.pts.length || line?.mask
+      )
+      if (isMaskReshaped(maskRefinement) || showMaskPreview) {
+        // while adjusting the refinement without a stroke, preview it on the
+        // last one
+        const previewed =
+          strokes.length || !showMaskPreview
+            ? strokes
+            : lines.slice(-2, -1).filter(Boolean)
+        drawMaskPreview(
+          context,
+          previewed,
+          maskRefinement,
+          canvas.width / currRender.width
+        )
+      } else {
+        drawStrokes(context, strokes)
+      }
+      drawPrompts(context, strokes)
     },
-    [context, lines, original, renders]
+    [
+      context,
+      lines,
+      maskRefinement,
+      original,
+      pendingLines,
+      renders,
+      showMaskPreview,
+    ]
   )
 
-  const refreshCanvasMask = useCallback(() => {
-    if (!context?.canvas.width || !context?.canvas.height) {
-      throw new Error('canvas has invalid size')
+  const refreshCanvasMask = useCallback(
+    (strokes: Line[]) => {
+      if (!context?.canvas.width || !context?.canvas.height) {
+        throw new Error('canvas has invalid size')
+      }
+      // strokes are kept in display pixels, rasterize them at the resolution
+      // of the image
+      const currRender = renders[renders.length - 1] ?? original
+      maskCanvas.width = currRender.width
+      maskCanvas.height = currRender.height
+      const ctx = maskCanvas.getContext('2d')
+      if (!ctx) {
+        throw new Error('could not retrieve mask canvas')
+      }
+      drawLines(
+        ctx,
+        scaleLines(strokes, currRender.width / context.canvas.width),
+        'white'
+      )
+    },
+    [
+      context?.canvas.height,
+      context?.canvas.width,
+      maskCanvas,
+      original,
+      renders,
+    ]
+  )
+
+  const onloading = useCallback(() => {
+    const controller = new AbortController()
+    jobRef.current = controller
+    setIsProcessingLoading(true)
+    setGenerateProgress(0)
+    return {
+      signal: controller.signal,
+      // progress reported by the inference worker as the job goes through
+      // its stages
+      onStage: (stage: inferenceStage, progress: number) => {
+        setGenerateProgress(progress)
+      },
+      close: () => {
+        if (jobRef.current === controller) {
+          jobRef.current = undefined
+        }
+        setGenerateProgress(100)
+        setIsProcessingLoading(false)
+      },
     }
-    maskCanvas.width = context?.canvas.width
-    maskCanvas.height = context?.canvas.height
-    const ctx = maskCanvas.getContext('2d')
-    if (!ctx) {
-      throw new Error('could not retrieve mask canvas')
+  }, [])
+
+  // run the model once on the combined mask of some strokes
+  const runInpaint = useCallback(
+    async (strokes: Line[]) => {
+      const loading = onloading()
+      refreshCanvasMask(strokes)
+      try {
+        const start = Date.now()
+        console.log('inpaint_start')
+        // each time based on the last result, the first is the original
+        const newFile = renders.slice(-1)[0] ?? file
+        const mask = maskCanvas.toDataURL()
+        const res = await inpaint(newFile, mask, {
+          onStage: loading.onStage,
+          signal: loading.signal,
+          refinement: maskRefinement,
+          downscale,
+        })
+        if (!res) {
+          throw new Error('empty response')
+        }
+        // TODO: fix the render if it failed loading
+        const newRender = new Image()
+        newRender.dataset.id = Date.now().toString()
+        await loadImage(newRender, res)
+        setRenderInfo(newRender, {
+          operation: 'inpaint',
+          model: getModel('inpaint').name,
+          refinement: maskRefinement,
+          mask: dataURItoBlob(mask),
+        })
+        renders.push(newRender)
+        lines.splice(-1, 1, strokes.filter(line => !line.erase).slice(-1)[0])
+        lines.push({ pts: [], src: '' } as Line)
+        setRenders([...renders])
+        setLines([...lines])
+        setPendingLines([])
+        setRedoStack([])
+        console.log('inpaint_processed', {
+          duration: Date.now() - start,
+        })
+      } catch (e: any) {
+        if (isAbortError(e)) {
+          // drop the cancelled stroke, pending ones stay for another try
+          lines.splice(-1, 1, { pts: [], src: '' } as Line)
+          setLines([...lines])
+        } else {
+          console.log('inpaint_failed', {
+            error: e,
+          })
+          // eslint-disable-next-line
+          alert(e.message ? e.message : e.toString())
+        }
+      }
+      if (historyListRef.current) {
+        const { scrollWidth, clientWidth } = historyListRef.current
+        if (scrollWidth > clientWidth) {
+          historyListRef.current.scrollTo(scrollWidth, 0)
+        }
+      }
+      loading.close()
+      draw()
+    },
+    [
+      downscale,
+      draw,
+      file,
+      lines,
+      maskCanvas,
+      maskRefinement,
+      onloading,
+      refreshCanvasMask,
+      renders,
+    ]
+  )
+
+  // predict the object under a segmentation line's clicks
+  const runSegmentation = useCallback(
+    async (line: Line) => {
+      if (!context?.canvas.width) {
+        return
+      }
+      for (const type of ['segment', 'segmentDecoder'] as const) {
+        if (!(await modelExists(type))) {
+          setDownloading(type)
+          const downloaded = await downloadModel(type, setDownloadProgress)
+          setDownloading(undefined)
+          if (!downloaded) {
+            // the click can't be segmented without the model
+            line.pts.pop()
+            setLines([...lines])
+            return
+          }
+        }
+      }
+      const loading = onloading()
+      try {
+        // clicks are in display pixels, segment the image at full resolution
+        const image = renders[renders.length - 1] ?? original
+        const [clicks] = scaleLines([line], image.width / context.canvas.width)
+        line.mask = await segment(image, clicks.pts, {
+          onStage: loading.onStage,
+          signal: loading.signal,
+        })
+      } catch (e: any) {
+        // the last click did not make it into the mask
+        line.pts.pop()
+        if (!isAbortError(e)) {
+          console.log('segment_failed', {
+            error: e,
+          })
+          // eslint-disable-next-line
+          alert(e.message ? e.message : e.toString())
+        }
+      }
+      setLines([...lines])
+      loading.close()
+    },
+    [context?.canvas.width, lines, onloading, original, renders]
+  )
+
+  // keep the predicted object as a stroke for the next run
+  const onSegmentDone = () => {
+    const line = lines[lines.length - 1]
+    if (line.mask) {
+      setPendingLines([...pendingLines, line])
+      setRedoStack([])
     }
-    // Just need the finishing touch
-    const line = lines.slice(-1)[0]
-    if (line) drawLines(ctx, [line], 'white')
-  }, [context?.canvas.height, context?.canvas.width, lines, maskCanvas])
+    lines.splice(-1, 1, { pts: [], src: '' } as Line)
+    setLines([...lines])
+  }
 
   // Draw once the original image is loaded
   useEffect(() => {
@@ -144,6 +459,53 @@ export default function Editor(props: EditorProps) {
     }
   }, [context?.canvas, draw, original, isOriginalLoaded, windowSize])
 
+  // strokes of a restored session are stored in fractions of the canvas
+  // width, they are put back once the canvas has its size
+  const pendingRestore = useRef(project)
+  useEffect(() => {
+    const restored = pendingRestore.current
+    if (!restored || !isOriginalLoaded || !context?.canvas.width) {
+      return
+    }
+    pendingRestore.current = undefined
+    const { width } = context.canvas
+    setLines(scaleLines(restored.lines, width))
+    setPendingLines(scaleLines(restored.pendingLines, width))
+  }, [context, isOriginalLoaded])
+
+  // keep the session saved as it changes
+  useEffect(() => {
+    if (pendingRestore.current || !isOriginalLoaded || !context?.canvas.width) {
+      return
+    }
+    const canvasWidth = context.canvas.width
+    const timeout = window.setTimeout(() => {
+      saveProject(projectId, {
+        source: file,
+        fullSize,
+        renders,
+        lines,
+        pendingLines,
+        settings: { brushSize, maskRefinement, autoRun, downscale },
+        canvasWidth,
+      }).catch(e => console.error('saving project failed', e))
+    }, PROJECT_SAVE_DELAY)
+    return () => window.clearTimeout(timeout)
+  }, [
+    autoRun,
+    brushSize,
+    context,
+    downscale,
+    file,
+    fullSize,
+    isOriginalLoaded,
+    lines,
+    maskRefinement,
+    pendingLines,
+    projectId,
+    renders,
+  ])
+
   // Handle mouse interactions
   useEffect(() => {
     const canvas = context?.canvas
@@ -158,15 +520,52 @@ export default function Editor(props: EditorProps) {
         brushRef.current.style.transform = `translate3d(${x}px, ${y}px, 0)`
       }
     }
-    const onPaint = (px: number, py: number) => {
-      const currLine = lines[lines.length - 1]
-      currLine.pts.push({ x: px, y: py })
-      draw()
+    const pointOf = (ev: MouseEvent | TouchEvent): Point => {
+      if ('touches' in ev) {
+        const coords = canvas.getBoundingClientRect()
+        return {
+          x: ev.touches[0].clientX - coords.x,
+          y: ev.touches[0].clientY - coords.y,
+        }
+      }
+      return {
+        x: ev.offsetX - canvas.offsetLeft,
+        y: ev.offsetY - canvas.offsetTop,
+      }
     }
     const onMouseDrag = (ev: MouseEvent) => {
-      const px = ev.offsetX - canvas.offsetLeft
-      const py = ev.offsetY - canvas.offsetTop
-      onPaint(px, py)
+      addPoint(lines[lines.length - 1], pointOf(ev))
+      draw()
+    }
+
+    // the current stroke or shape is complete, run it or keep it for later
+    const finishLine = async () => {
+      const line = lines[lines.length - 1]
+      if (!isDrawable(line)) {
+        lines.splice(-1, 1, { pts: [], src: '' } as Line)
+        setLines([...lines])
+        return
+      }
+      // wand selections wait so they can be touched up with the brush, and
+      // so does everything drawn after them
+      if (
+        !autoRun ||
+        line.erase ||
+        line.tool === 'wand' ||
+        line.tool === 'segment' ||
+        pendingLines.length
+      ) {
+        // keep the stroke for the next explicit run, erasing only makes sense
+        // on strokes that have not been run yet
+        if (!line.erase || pendingLines.length) {
+          setPendingLines([...pendingLines, line])
+          setRedoStack([])
+        }
+        lines.splice(-1, 1, { pts: [], src: '' } as Line)
+        setLines([...lines])
+        return
+      }
+      await runInpaint([line])
     }
 
     const onPointerUp = async () => {
@@ -176,68 +575,75 @@ export default function Editor(props: EditorProps) {
       if (lines.slice(-1)[0]?.pts.length === 0) {
         return
       }
-      const loading = onloading()
       canvas.removeEventListener('mousemove', onMouseDrag)
       canvas.removeEventListener('mouseup', onPointerUp)
-      refreshCanvasMask()
-      try {
-        const start = Date.now()
-        console.log('inpaint_start')
-        // each time based on the last result, the first is the original
-        const newFile = renders.slice(-1)[0] ?? file
-        const res = await inpaint(newFile, maskCanvas.toDataURL())
-        if (!res) {
-          throw new Error('empty response')
-        }
-        // TODO: fix the render if it failed loading
-        const newRender = new Image()
-        newRender.dataset.id = Date.now().toString()
-        await loadImage(newRender, res)
-        renders.push(newRender)
-        lines.push({ pts: [], src: '' } as Line)
-        setRenders([...renders])
-        setLines([...lines])
-        console.log('inpaint_processed', {
-          duration: Date.now() - start,
-        })
-      } catch (e: any) {
-        console.log('inpaint_failed', {
-          error: e,
-        })
-        // eslint-disable-next-line
-        alert(e.message ? e.message : e.toString())
+      // polygons are finished by closing them
+      if (lines[lines.length - 1].tool !== 'polygon') {
+        await finishLine()
       }
-      if (historyListRef.current) {
-        const { scrollWidth, clientWidth } = historyListRef.current
-        if (scrollWidth > clientWidth) {
-          historyListRef.current.scrollTo(scrollWidth, 0)
-        }
-      }
-      loading.close()
-      draw()
     }
     canvas.addEventListener('mousemove', onMouseMove)
 
     const onTouchMove = (ev: TouchEvent) => {
       ev.preventDefault()
       ev.stopPropagation()
-      const currLine = lines[lines.length - 1]
-      const coords = canvas.getBoundingClientRect()
-      currLine.pts.push({
-        x: ev.touches[0].clientX - coords.x,
-        y: ev.touches[0].clientY - coords.y,
-      })
+      addPoint(lines[lines.length - 1], pointOf(ev))
       draw()
     }
-    const onPointerStart = () => {
+    const onPointerStart = (ev: MouseEvent | TouchEvent) => {
       if (!original.src || showOriginal) {
         return
       }
       const currLine = lines[lines.length - 1]
-      currLine.size = brushSize
+      const pt = pointOf(ev)
+      if (!currLine.pts.length) {
+        currLine.tool = tool
+        currLine.size = brushSize
+        currLine.erase = erasing
+      }
+      if (tool === 'wand') {
+        // select from the image as it is now, at its full resolution
+        const currRender = renders[renders.length - 1] ?? original
+        const scale = currRender.width / canvas.width
+        currLine.pts = [pt]
+        currLine.mask = selectSimilar(
+          currRender,
+          { x: pt.x * scale, y: pt.y * scale },
+          wandTolerance
+        )
+        finishLine()
+        return
+      }
+      if (tool === 'segment') {
+        // shift+click marks what is not part of the object
+        currLine.pts.push({ ...pt, negative: ev.shiftKey })
+        draw()
+        runSegmentation(currLine)
+        return
+      }
+      if (tool === 'polygon') {
+        // each click places a vertex, clicking the first one closes it
+        if (isClosingPoint(currLine, pt)) {
+          currLine.closed = true
+          finishLine()
+        } else {
+          currLine.pts.push(pt)
+          draw()
+        }
+        return
+      }
+      if (tool !== 'brush') {
+        addPoint(currLine, pt)
+      }
       canvas.addEventListener('mousemove', onMouseDrag)
       canvas.addEventListener('mouseup', onPointerUp)
-      // onPaint(e)
+    }
+    const onDoubleClick = () => {
+      const currLine = lines[lines.length - 1]
+      if (currLine.tool === 'polygon' && isDrawable(currLine)) {
+        currLine.closed = true
+        finishLine()
+      }
     }
 
     canvas.addEventListener('touchstart', onPointerStart)
@@ -249,6 +655,7 @@ export default function Editor(props: EditorProps) {
     }
     canvas.onmouseleave = () => setShowBrush(false)
     canvas.onmousedown = onPointerStart
+    canvas.ondblclick = onDoubleClick
 
     return () => {
       canvas.removeEventListener('mousemove', onMouseDrag)
@@ -260,19 +667,24 @@ export default function Editor(props: EditorProps) {
       canvas.onmouseenter = null
       canvas.onmouseleave = null
       canvas.onmousedown = null
+      canvas.ondblclick = null
     }
   }, [
+    autoRun,
     brushSize,
     context,
-    file,
+    erasing,
     draw,
     lines,
-    refreshCanvasMask,
-    maskCanvas,
-    original.src,
+    original,
+    pendingLines,
     renders,
+    runInpaint,
+    runSegmentation,
     showOriginal,
     hideBrushTimeout,
+    tool,
+    wandTolerance,
   ])
 
   useEffect(() => {
@@ -314,28 +726,110 @@ export default function Editor(props: EditorProps) {
     }
   }, [separator, context])
 
-  function download() {
-    const currRender = renders.at(-1) ?? original
-    downloadImage(currRender.currentSrc, 'IMG')
+  async function download(options: ExportOptions) {
+    setExportOptions(options)
+    setShowExport(false)
+    try {
+      const currRender = renders.at(-1) ?? original
+      const image =
+        (fullSize && (await restoreResolution(fullSize, renders))) || currRender
+      downloadBlob(
+        await exportImage(image, fullSize ?? file, options),
+        exportFileName(file.name, options.format)
+      )
+    } catch (e: any) {
+      // eslint-disable-next-line
+      alert(e.message ? e.message : e.toString())
+    }
+  }
+
+  async function exportProject() {
+    if (!context?.canvas.width) {
+      return
+    }
+    try {
+      const bundle = await exportBundle({
+        source: file,
+        fullSize,
+        renders,
+        lines,
+        pendingLines,
+        settings: { brushSize, maskRefinement, autoRun, downscale },
+        canvasWidth: context.canvas.width,
+      })
+      downloadBlob(bundle, `${baseName(file.name)}.zip`)
+    } catch (e: any) {
+      // eslint-disable-next-line
+      alert(e.message ? e.message : e.toString())
+    }
   }
 
-  const undo = useCallback(async () => {
-    const l = lines
-    l.pop()
-    l.pop()
-    setLines([...l, { pts: [], src: '' }])
-    const r = renders
-    r.pop()
-    setRenders([...r])
-  }, [lines, renders])
+  // take back the last `count` edits, strokes not run yet first, keeping
+  // them for redo
+  const stepBack = useCallback(
+    (count: number) => {
+      const pending = [...pendingLines]
+      const steps = [...redoStack]
+      for (let i = 0; i < count; i += 1) {
+        const line = pending.pop()
+        const render = line ? undefined : renders.pop()
+        if (line) {
+          steps.push({ line })
+        } else if (render) {
+          // the current empty line, then the one the render was made from
+          lines.pop()
+          steps.push({ line: lines.pop()!, render })
+          lines.push({ pts: [], src: '' })
+        }
+      }
+      setPendingLines(pending)
+      setRedoStack(steps)
+      setRenders([...renders])
+      setLines([...lines])
+    },
+    [lines, pendingLines, redoStack, renders]
+  )
+
+  const undo = useCallback(() => stepBack(1), [stepBack])
+
+  const redo = useCallback(() => {
+    const steps = [...redoStack]
+    const step = steps.pop()
+    if (!step) {
+      return
+    }
+    if (step.render) {
+      renders.push(step.render)
+      lines.splice(-1, 1, step.line, { pts: [], src: '' })
+      setRenders([...renders])
+      setLines([...lines])
+    } else {
+      setPendingLines([...pendingLines, step.line])
+    }
+    setRedoStack(steps)
+  }, [lines, pendingLines, redoStack, renders])
 
   useEffect(() => {
     const handler = (event: KeyboardEvent) => {
-      if (!renders.length) {
+      if (!event.metaKey && !event.ctrlKey) {
+        return
+      }
+      // the history can't change under a running job, and text fields keep
+      // their own undo
+      if (
+        isInpaintingLoading ||
+        event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLTextAreaElement
+      ) {
         return
       }
-      const isCmdZ = (event.metaKey || event.ctrlKey) && event.key === 'z'
-      if (isCmdZ) {
+      const key = event.key.toLowerCase()
+      if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        if (redoStack.length) {
+          event.preventDefault()
+          redo()
+        }
+      } else if (key === 'z' && (renders.length || pendingLines.length)) {
         event.preventDefault()
         undo()
       }
@@ -344,16 +838,13 @@ export default function Editor(props: EditorProps) {
     return () => {
       window.removeEventListener('keydown', handler)
     }
-  }, [renders, undo])
+  }, [isInpaintingLoading, pendingLines, redo, redoStack, renders, undo])
 
   const backTo = useCallback(
     (index: number) => {
-      lines.splice(index + 1)
-      setLines([...lines, { pts: [], src: '' }])
-      renders.splice(index + 1)
-      setRenders([...renders])
+      stepBack(pendingLines.length + renders.length - index - 1)
     },
-    [renders, lines]
+    [pendingLines.length, renders.length, stepBack]
   )
 
   const History = useMemo(
@@ -433,41 +924,133 @@ export default function Editor(props: EditorProps) {
     )
   }
 
-  const onloading = useCallback(() => {
-    setIsProcessingLoading(true)
-    setGenerateProgress(0)
-    const progressTimer = window.setInterval(() => {
-      setGenerateProgress(p => {
-        if (p < 90) return p + 10 * Math.random()
-        if (p >= 90 && p < 99) return p + 1 * Math.random()
-        // Do not hide the progress bar after 99%,cause sometimes long time progress
-        // window.setTimeout(() => setIsInpaintingLoading(false), 500)
-        return p
-      })
-    }, 1000)
-    return {
-      close: () => {
-        clearInterval(progressTimer)
-        setGenerateProgress(100)
-        setIsProcessingLoading(false)
-      },
+  const onRefinementChange = (change: Partial<MaskRefinement>) => {
+    setMaskRefinement(refinement => ({ ...refinement, ...change }))
+    setShowMaskPreview(true)
+    window.clearTimeout(maskPreviewTimeout.current)
+    maskPreviewTimeout.current = window.setTimeout(() => {
+      setShowMaskPreview(false)
+    }, BRUSH_HIDE_ON_SLIDER_CHANGE_TIMEOUT)
+  }
+
+  const onToolChange = (next: maskTool) => {
+    // drop a polygon that was not closed yet
+    const currLine = lines[lines.length - 1]
+    if (currLine.pts.length) {
+      lines.splice(-1, 1, { pts: [], src: '' } as Line)
+      setLines([...lines])
+    }
+    setTool(next)
+  }
+
+  const editedImage = renders[renders.length - 1] ?? original
+  // image to display pixels
+  const displayScale = context?.canvas.width
+    ? context.canvas.width / editedImage.width
+    : 1
+
+  const onDetectText = () => {
+    const regions = detectTextRegions(editedImage)
+    if (!regions.length) {
+      alert(m.no_text_found())
+      return
+    }
+    setTextCandidates(regions.map(region => ({ region, accepted: true })))
+  }
+
+  const toggleTextCandidate = (index: number) => {
+    setTextCandidates(candidates =>
+      candidates.map((candidate, i) =>
+        i === index
+          ? { ...candidate, accepted: !candidate.accepted }
+          : candidate
+      )
+    )
+  }
+
+  const onConfirmText = async () => {
+    const shapes: Line[] = textCandidates
+      .filter(({ accepted }) => accepted)
+      .map(({ region }) => ({
+        tool: 'rectangle',
+        pts: [
+          { x: region.x * displayScale, y: region.y * displayScale },
+          {
+            x: (region.x + region.width) * displayScale,
+            y: (region.y + region.height) * displayScale,
+          },
+        ],
+        src: '',
+      }))
+    setTextCandidates([])
+    if (shapes.length) {
+      await runInpaint([...pendingLines, ...shapes])
+    }
+  }
+
+  // a mask made in another tool waits with the strokes not run yet
+  const onImportMask = async (maskFile?: File) => {
+    if (!maskFile) {
+      return
+    }
+    try {
+      const mask = await loadMask(
+        maskFile,
+        editedImage.width,
+        editedImage.height
+      )
+      setPendingLines([
+        ...pendingLines,
+        { tool: 'import', pts: [], mask, src: '' },
+      ])
+      setRedoStack([])
+    } catch (e: any) {
+      // eslint-disable-next-line
+      alert(e.message ? e.message : e.toString())
     }
+  }
+
+  // the mask of the strokes waiting for a run, or else the one the last
+  // render was made with
+  const lastMask = renders.length
+    ? getRenderInfo(renders[renders.length - 1])?.mask
+    : undefined
+  const onExportMask = () => {
+    const name = `${baseName(file.name)}-mask.png`
+    if (pendingLines.length) {
+      refreshCanvasMask(pendingLines)
+      downloadImage(maskCanvas.toDataURL(), name)
+    } else if (lastMask) {
+      downloadBlob(lastMask, name)
+    }
+  }
+
+  const onCancel = useCallback(() => {
+    jobRef.current?.abort()
   }, [])
 
   const onSuperResolution = useCallback(async () => {
     if (!(await modelExists('superResolution'))) {
-      setDownloaded(false)
-      await downloadModel('superResolution', setDownloadProgress)
-      setDownloaded(true)
+      setDownloading('superResolution')
+      const downloaded = await downloadModel(
+        'superResolution',
+        setDownloadProgress
+      )
+      setDownloading(undefined)
+      if (!downloaded) {
+        return
+      }
     }
-    setIsProcessingLoading(true)
+    const loading = onloading()
     try {
       // 运行
       const start = Date.now()
       console.log('superResolution_start')
       // each time based on the last result, the first is the original
       const newFile = renders.at(-1) ?? file
-      const res = await superResolution(newFile, setGenerateProgress)
+      const res = await superResolution(newFile, setGenerateProgress, {
+        signal: loading.signal,
+      })
       if (!res) {
         throw new Error('empty response')
       }
@@ -475,21 +1058,45 @@ export default function Editor(props: EditorProps) {
       const newRender = new Image()
       newRender.dataset.id = Date.now().toString()
       await loadImage(newRender, res)
+      setRenderInfo(newRender, {
+        operation: 'upscale',
+        model: getModel('superResolution').name,
+      })
       renders.push(newRender)
       lines.push({ pts: [], src: '' } as Line)
       setRenders([...renders])
       setLines([...lines])
+      setRedoStack([])
       console.log('superResolution_processed', {
         duration: Date.now() - start,
       })
 
       // 替换当前图片
     } catch (error) {
-      console.error('superResolution', error)
+      if (!isAbortError(error)) {
+        console.error('superResolution', error)
+      }
     } finally {
-      setIsProcessingLoading(false)
+      loading.close()
+    }
+  }, [
+    file,
+    lines,
+    onloading,
+    original.naturalHeight,
+    original.naturalWidth,
+    renders,
+  ])
+
+  const onModelChange = useCallback(async (name: string) => {
+    setCurrentModel('inpaint', name)
+    setInpaintModel(name)
+    if (!(await modelExists('inpaint'))) {
+      setDownloading('inpaint')
+      await downloadModel('inpaint', setDownloadProgress)
+      setDownloading(undefined)
     }
-  }, [file, lines, original.naturalHeight, original.naturalWidth, renders])
+  }, [])
 
   return (
     <div
@@ -609,22 +1216,73 @@ export default function Editor(props: EditorProps) {
               }}
             />
           </div>
+          {textCandidates.map(({ region, accepted }, i) => (
+            <button
+              type="button"
+              key={`${region.x},${region.y}`}
+              aria-label={m.text_region()}
+              aria-pressed={accepted}
+              className={[
+                'absolute border-2 rounded-sm',
+                accepted ? 'border-primary' : 'border-dashed border-gray-400',
+              ].join(' ')}
+              style={{
+                left: region.x * displayScale,
+                top: region.y * displayScale,
+                width: region.width * displayScale,
+                height: region.height * displayScale,
+                backgroundColor: accepted ? 'rgba(255, 0, 0, 0.3)' : undefined,
+              }}
+              onClick={() => toggleTextCandidate(i)}
+            />
+          ))}
           {isInpaintingLoading && (
             <div className="z-10 bg-white absolute bg-opacity-80 top-0 left-0 right-0 bottom-0  h-full w-full flex justify-center items-center">
               <div ref={modalRef} className="text-xl space-y-5 w-4/5 sm:w-1/2">
                 <p>正在处理中，请耐心等待。。。</p>
                 <p>It is being processed, please be patient...</p>
                 <Progress percent={generateProgress} />
+                <div className="flex justify-end pointer-events-auto">
+                  <Button
+                    icon={<XIcon className="w-6 h-6" />}
+                    onClick={onCancel}
+                  >
+                    {m.cancel()}
+                  </Button>
+                </div>
               </div>
             </div>
           )}
         </div>
       </div>
 
-      {!downloaded && (
+      {showExport && (
+        <Modal>
+          <ExportDialog
+            sourceName={file.name}
+            options={exportOptions}
+            notice={
+              fullSize && !canRestoreResolution(renders)
+                ? m.export_proxy_resolution()
+                : undefined
+            }
+            onExport={download}
+            onCancel={() => setShowExport(false)}
+          />
+        </Modal>
+      )}
+
+      {downloading && (
         <Modal>
           <div className="text-xl space-y-5">
-            <p>{m.upscaleing_model_download_message()}</p>
+            <p>
+              {downloading === 'inpaint' && m.inpaint_model_download_message()}
+              {downloading === 'superResolution' &&
+                m.upscaleing_model_download_message()}
+              {(downloading === 'segment' ||
+                downloading === 'segmentDecoder') &&
+                m.segment_model_download_message()}
+            </p>
             <Progress percent={downloadProgress} />
           </div>
         </Modal>
@@ -649,29 +1307,72 @@ export default function Editor(props: EditorProps) {
           'flex-col space-y-2 sm:space-y-0 sm:flex-row sm:space-x-5',
         ].join(' ')}
       >
-        {renders.length > 0 && (
+        {(renders.length > 0 || pendingLines.length > 0) && (
           <Button
             primary
             onClick={undo}
-            icon={
-              <svg
-                className="w-6 h-6"
-                width="19"
-                height="9"
-                viewBox="0 0 19 9"
-                fill="none"
-                xmlns="http://www.w3.org/2000/svg"
-              >
-                <path
-                  d="M2 1C2 0.447715 1.55228 0 1 0C0.447715 0 0 0.447715 0 1H2ZM1 8H0V9H1V8ZM8 9C8.55228 9 9 8.55229 9 8C9 7.44771 8.55228 7 8 7V9ZM16.5963 7.42809C16.8327 7.92721 17.429 8.14016 17.9281 7.90374C18.4272 7.66731 18.6402 7.07103 18.4037 6.57191L16.5963 7.42809ZM16.9468 5.83205L17.8505 5.40396L16.9468 5.83205ZM0 1V8H2V1H0ZM1 9H8V7H1V9ZM1.66896 8.74329L6.66896 4.24329L5.33104 2.75671L0.331035 7.25671L1.66896 8.74329ZM16.043 6.26014L16.5963 7.42809L18.4037 6.57191L17.8505 5.40396L16.043 6.26014ZM6.65079 4.25926C9.67554 1.66661 14.3376 2.65979 16.043 6.26014L17.8505 5.40396C15.5805 0.61182 9.37523 -0.710131 5.34921 2.74074L6.65079 4.25926Z"
-                  fill="currentColor"
-                />
-              </svg>
-            }
+            icon={<UndoIcon className="w-6 h-6" />}
           >
             {m.undo()}
           </Button>
         )}
+        {redoStack.length > 0 && (
+          <Button
+            primary
+            onClick={redo}
+            icon={<UndoIcon className="w-6 h-6 transform -scale-x-100" />}
+          >
+            {m.redo()}
+          </Button>
+        )}
+        <label className="inline-flex items-center space-x-4 text-black">
+          <span>{m.model()}</span>
+          <select
+            className="rounded-md border border-gray-300 py-2 px-3 bg-white"
+            value={inpaintModel}
+            onChange={ev => onModelChange(ev.currentTarget.value)}
+          >
+            {getModelList('inpaint').map(model => (
+              <option key={model.name} value={model.name}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="inline-flex items-center space-x-4 text-black">
+          <span>{m.tool()}</span>
+          <select
+            className="rounded-md border border-gray-300 py-2 px-3 bg-white"
+            value={tool}
+            onChange={ev => onToolChange(ev.currentTarget.value as maskTool)}
+          >
+            {tools.map(t => (
+              <option key={t} value={t}>
+                {toolLabels[t]()}
+              </option>
+            ))}
+          </select>
+        </label>
+        {tool === 'segment' &&
+          (lines[lines.length - 1].mask ? (
+            <Button primary onClick={onSegmentDone}>
+              {m.segment_done()}
+            </Button>
+          ) : (
+            <span className="text-black">{m.segment_hint()}</span>
+          ))}
+        {tool === 'wand' && (
+          <Slider
+            label={m.wand_tolerance()}
+            min={0}
+            max={100}
+            value={wandTolerance}
+            onChange={setWandTolerance}
+          />
+        )}
+        <Button primary={erasing} onClick={() => setErasing(!erasing)}>
+          {m.eraser()}
+        </Button>
         <Slider
           label={m.bruch_size()}
           min={10}
@@ -680,6 +1381,89 @@ export default function Editor(props: EditorProps) {
           onChange={handleSliderChange}
           onStart={handleSliderStart}
         />
+        <Slider
+          label={m.mask_dilate()}
+          min={0}
+          max={50}
+          value={maskRefinement.dilate}
+          onChange={dilate => onRefinementChange({ dilate })}
+        />
+        <Slider
+          label={m.mask_erode()}
+          min={0}
+          max={50}
+          value={maskRefinement.erode}
+          onChange={erode => onRefinementChange({ erode })}
+        />
+        <Slider
+          label={m.mask_feather()}
+          min={0}
+          max={50}
+          value={maskRefinement.feather}
+          onChange={feather => onRefinementChange({ feather })}
+        />
+        <label className="inline-flex items-center space-x-2 text-black">
+          <input
+            type="checkbox"
+            checked={maskRefinement.fillHoles}
+            onChange={ev =>
+              onRefinementChange({ fillHoles: ev.currentTarget.checked })
+            }
+          />
+          <span>{m.mask_fill_holes()}</span>
+        </label>
+        <label className="inline-flex items-center space-x-2 text-black">
+          <input
+            type="checkbox"
+            checked={downscale}
+            onChange={ev => setDownscale(ev.currentTarget.checked)}
+          />
+          <span>{m.inpaint_downscale()}</span>
+        </label>
+        <label className="inline-flex items-center space-x-2 text-black">
+          <input
+            type="checkbox"
+            checked={autoRun}
+            onChange={ev => setAutoRun(ev.currentTarget.checked)}
+          />
+          <span>{m.auto_remove()}</span>
+        </label>
+        {textCandidates.length > 0 ? (
+          <>
+            <Button onClick={() => setTextCandidates([])}>{m.cancel()}</Button>
+            <Button primary onClick={onConfirmText}>
+              {m.remove_text()}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={onDetectText}>{m.detect_text()}</Button>
+        )}
+        <Button onClick={() => maskInput.current?.click()}>
+          {m.import_mask()}
+        </Button>
+        <input
+          ref={maskInput}
+          type="file"
+          accept="image/png"
+          className="hidden"
+          onChange={ev => {
+            onImportMask(ev.currentTarget.files?.[0])
+            ev.currentTarget.value = ''
+          }}
+        />
+        {(pendingLines.length > 0 || lastMask) && (
+          <Button onClick={onExportMask}>{m.export_mask()}</Button>
+        )}
+        {pendingLines.length > 0 && (
+          <>
+            <Button onClick={() => stepBack(pendingLines.length)}>
+              {m.clear_strokes()}
+            </Button>
+            <Button primary onClick={() => runInpaint(pendingLines)}>
+              {m.remove()}
+            </Button>
+          </>
+        )}
         <Button
           primary={showOriginal}
           icon={<EyeIcon className="w-6 h-6" />}
@@ -694,10 +1478,16 @@ export default function Editor(props: EditorProps) {
           <Button onUp={onSuperResolution}>{m.upscale()}</Button>
         )}
 
+        <Button
+          icon={<ArchiveIcon className="w-6 h-6" />}
+          onClick={exportProject}
+        >
+          {m.export_project()}
+        </Button>
         <Button
           primary
           icon={<DownloadIcon className="w-6 h-6" />}
-          onClick={download}
+          onClick={() => setShowExport(true)}
         >
           {m.download()}
         </Button>
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react'
+import Button from './components/Button'
+import Slider from './components/Slider'
+import {
+  canKeepMetadata,
+  exportFileName,
+  exportFormats,
+  formatExtensions,
+  isFormatSupported,
+} from './export'
+import type { ExportFormat, ExportOptions } from './export'
+import * as m from './paraglide/messages'
+
+interface ExportDialogProps {
+  // name of the uploaded file the export is named after
+  sourceName: string
+  options: ExportOptions
+  // shown above the buttons, e.g. when the export is smaller than the upload
+  notice?: string
+  onExport: (options: ExportOptions) => void
+  onCancel: () => void
+}
+
+export default function ExportDialog(props: ExportDialogProps) {
+  const { sourceName, options, notice, onExport, onCancel } = props
+  const [format, setFormat] = useState(options.format)
+  const [quality, setQuality] = useState(options.quality)
+  const [keepMetadata, setKeepMetadata] = useState(options.keepMetadata)
+  const formats = useMemo(() => exportFormats.filter(isFormatSupported), [])
+
+  return (
+    <div className="space-y-5 text-lg">
+      <h3 className="text-xl font-semibold">{m.export_image()}</h3>
+      <label className="flex items-center space-x-4">
+        <span>{m.export_format()}</span>
+        <select
+          className="rounded-md border border-gray-300 py-2 px-3 bg-white"
+          value={format}
+          onChange={ev => setFormat(ev.currentTarget.value as ExportFormat)}
+        >
+          {formats.map(f => (
+            <option key={f} value={f}>
+              {formatExtensions[f].toUpperCase()}
+            </option>
+          ))}
+        </select>
+      </label>
+      {format !== 'image/png' && (
+        <div className="flex items-center space-x-4">
+          <Slider
+            label={m.export_quality()}
+            min={1}
+            max={100}
+            value={Math.round(quality * 100)}
+            onChange={value => setQuality(value / 100)}
+          />
+          <span>{Math.round(quality * 100)}</span>
+        </div>
+      )}
+      <label className="flex items-center space-x-4">
+        <input
+          type="checkbox"
+          checked={keepMetadata && canKeepMetadata(format)}
+          disabled={!canKeepMetadata(format)}
+          onChange={ev => setKeepMetadata(ev.currentTarget.checked)}
+        />
+        <span>{m.keep_metadata()}</span>
+      </label>
+      <p className="text-sm text-gray-500">
+        {exportFileName(sourceName, format)}
+      </p>
+      {notice && <p className="text-sm text-yellow-700">{notice}</p>}
+      <div className="flex justify-end space-x-4">
+        <Button onClick={onCancel}>{m.cancel()}</Button>
+        <Button
+          primary
+          onClick={() => onExport({ format, quality, keepMetadata })}
+        >
+          {m.download()}
+        </Button>
+      </div>
+    </div>
+  )
+}
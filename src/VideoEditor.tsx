@@ -20,40 +20,28 @@ import {
   SimpleObjectTracker,
 } from './adapters/objectTracking'
 import { FarnebackMaskTracker } from './adapters/farnebackTracking'
+import { baseName, downloadImage } from './utils'
+import {
+  addPoint,
+  drawLines,
+  drawStrokes,
+  isClosingPoint,
+  loadMask,
+  POLYGON_CLOSE_DISTANCE,
+  scaleLines,
+  shapeTools,
+} from './shapes'
+import type { Line, shapeTool } from './shapes'
 
 interface VideoEditorProps {
   videoFile: File
 }
 
-interface Line {
-  size?: number
-  pts: { x: number; y: number }[]
-}
-
-function drawLines(
-  ctx: CanvasRenderingContext2D,
-  lines: Line[],
-  color = 'rgba(255, 0, 0, 0.5)'
-) {
-  ctx.strokeStyle = color
-  ctx.lineCap = 'round'
-  ctx.lineJoin = 'round'
-
-  lines.forEach(line => {
-    if (!line?.pts.length || !line.size) {
-      return
-    }
-    ctx.lineWidth = line.size
-    ctx.beginPath()
-    ctx.moveTo(line.pts[0].x, line.pts[0].y)
-    line.pts.forEach(pt => ctx.lineTo(pt.x, pt.y))
-    ctx.stroke()
-  })
-}
-
 export default function VideoEditor(props: VideoEditorProps) {
   const { videoFile } = props
   const [brushSize, setBrushSize] = useState(40)
+  const [erasing, setErasing] = useState(false)
+  const [tool, setTool] = useState<shapeTool>('brush')
   const [firstFrame, setFirstFrame] = useState<HTMLImageElement>()
   const [context, setContext] = useState<CanvasRenderingContext2D>()
   const [maskCanvas] = useState<HTMLCanvasElement>(() => {
@@ -66,6 +54,7 @@ export default function VideoEditor(props: VideoEditorProps) {
   const [progress, setProgress] = useState(0)
   const [processedVideoBlob, setProcessedVideoBlob] = useState<Blob>()
   const canvasDiv = useRef<HTMLDivElement>(null)
+  const maskInput = useRef<HTMLInputElement>(null)
   const windowSize = useWindowSize()
   const [isDrawing, setIsDrawing] = useState(false)
 
@@ -132,17 +121,8 @@ export default function VideoEditor(props: VideoEditorProps) {
 
     context.drawImage(firstFrame, 0, 0, canvasWidth, canvasHeight)
 
-    const currentLines = lines.map(line => ({
-      ...line,
-      pts: line.pts.map(pt => ({
-        x: (pt.x * canvasWidth) / firstFrame.width,
-        y: (pt.y * canvasHeight) / firstFrame.height,
-      })),
-      size: (line.size || brushSize) * (canvasWidth / firstFrame.width),
-    }))
-
-    drawLines(context, currentLines)
-  }, [context, firstFrame, lines, brushSize])
+    drawStrokes(context, scaleLines(lines, canvasWidth / firstFrame.width))
+  }, [context, firstFrame, lines])
 
   useEffect(() => {
     draw()
@@ -172,7 +152,6 @@ export default function VideoEditor(props: VideoEditorProps) {
   const handleMouseDown = useCallback(
     (ev: React.MouseEvent<HTMLCanvasElement>) => {
       if (!context?.canvas) return
-      setIsDrawing(true)
 
       const canvas = context.canvas
       const rect = canvas.getBoundingClientRect()
@@ -181,9 +160,34 @@ export default function VideoEditor(props: VideoEditorProps) {
       const y =
         ((ev.clientY - rect.top) / canvas.height) * (firstFrame?.height || 0)
 
-      setLines([...lines, { pts: [{ x, y }], size: brushSize }])
+      const lastLine = lines[lines.length - 1]
+      if (tool === 'polygon') {
+        // each click places a vertex, clicking the first one or double
+        // clicking closes the polygon
+        if (lastLine?.tool === 'polygon' && !lastLine.closed) {
+          const distance =
+            (POLYGON_CLOSE_DISTANCE * (firstFrame?.width || 0)) / canvas.width
+          if (ev.detail > 1 || isClosingPoint(lastLine, { x, y }, distance)) {
+            lastLine.closed = lastLine.pts.length >= 3
+          } else {
+            lastLine.pts.push({ x, y })
+          }
+          setLines([...lines])
+        } else {
+          setLines([
+            ...lines,
+            { tool, pts: [{ x, y }], size: brushSize, erase: erasing },
+          ])
+        }
+        return
+      }
+      setIsDrawing(true)
+      setLines([
+        ...lines,
+        { tool, pts: [{ x, y }], size: brushSize, erase: erasing },
+      ])
     },
-    [context, lines, brushSize, firstFrame]
+    [context, lines, brushSize, erasing, firstFrame, tool]
   )
 
   const handleMouseMove = useCallback(
@@ -211,7 +215,7 @@ export default function VideoEditor(props: VideoEditorProps) {
       setLines(currentLines => {
         const newLines = [...currentLines]
         const lastLine = newLines[newLines.length - 1]
-        lastLine.pts.push({ x, y })
+        addPoint(lastLine, { x, y })
         return newLines
       })
     },
@@ -450,6 +454,35 @@ export default function VideoEditor(props: VideoEditorProps) {
     URL.revokeObjectURL(url)
   }, [processedVideoBlob])
 
+  // a mask made in another tool, stretched over the first frame
+  const importMask = useCallback(
+    async (maskFile?: File) => {
+      if (!maskFile || !firstFrame) {
+        return
+      }
+      try {
+        const mask = await loadMask(
+          maskFile,
+          firstFrame.width,
+          firstFrame.height
+        )
+        setLines([...lines, { tool: 'import', pts: [], mask }])
+      } catch (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Mask import failed: ${(error as Error).message}`)
+      }
+    },
+    [firstFrame, lines]
+  )
+
+  const exportMask = useCallback(() => {
+    refreshCanvasMask()
+    downloadImage(
+      maskCanvas.toDataURL(),
+      `${baseName(videoFile.name)}-mask.png`
+    )
+  }, [maskCanvas, refreshCanvasMask, videoFile])
+
   const undoStroke = useCallback(() => {
     if (lines.length > 0) {
       setLines(lines.slice(0, -1))
@@ -479,9 +512,39 @@ export default function VideoEditor(props: VideoEditorProps) {
           />
         </div>
         <div className="flex space-x-2">
+          <select
+            className="rounded-md border border-gray-300 py-2 px-3 bg-white"
+            value={tool}
+            onChange={ev => setTool(ev.currentTarget.value as shapeTool)}
+          >
+            {shapeTools.map(t => (
+              <option key={t} value={t}>
+                {t.charAt(0).toUpperCase() + t.slice(1)}
+              </option>
+            ))}
+          </select>
+          <Button primary={erasing} onClick={() => setErasing(!erasing)}>
+            Eraser
+          </Button>
           <Button onClick={undoStroke} disabled={lines.length === 0}>
             Undo
           </Button>
+          <Button onClick={() => maskInput.current?.click()}>
+            Import Mask
+          </Button>
+          <input
+            ref={maskInput}
+            type="file"
+            accept="image/png"
+            className="hidden"
+            onChange={ev => {
+              importMask(ev.currentTarget.files?.[0])
+              ev.currentTarget.value = ''
+            }}
+          />
+          <Button onClick={exportMask} disabled={lines.length === 0}>
+            Export Mask
+          </Button>
           <Button
             icon={<PlayIcon className="w-5 h-5" />}
             onClick={processVideoWithOpenCV}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ensureModel } from './cache'
+import { getModel } from './models'
+
+// localforage without IndexedDB, items live in a map
+const store = vi.hoisted(() => new Map<string, unknown>())
+vi.mock('localforage', () => ({
+  default: {
+    config: () => {},
+    getItem: async (key: string) => store.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => {
+      store.set(key, value)
+      return value
+    },
+    removeItem: async (key: string) => {
+      store.delete(key)
+    },
+  },
+}))
+
+const CHUNK_SIZE = 4 * 1024 * 1024
+// has a main url and a mirror, and no recorded length or digest
+const model = getModel('superResolution', 'realesrgan-x4')
+const key = `${model.name}@${model.version}`
+
+// starts like an ONNX ModelProto, the rest numbered so joins show
+function modelFile(length: number) {
+  const data = Uint8Array.from({ length }, (_, i) => i % 251)
+  data[0] = 0x08
+  return data
+}
+
+// compared here, a failed toEqual would print megabytes of diff
+function sameBytes(buffer: ArrayBuffer, file: Uint8Array) {
+  const data = new Uint8Array(buffer)
+  return data.length === file.length && data.every((b, i) => b === file[i])
+}
+
+// a server honoring Range, with the total in Content-Range unless `sizeless`
+function serve(file: Uint8Array, sizeless = false) {
+  return (init?: RequestInit) => {
+    const range = (init?.headers as Record<string, string>).Range
+    const [start, end] = range.slice(6).split('-').map(Number)
+    if (start >= file.length) {
+      return new Response(null, { status: 416 })
+    }
+    const body = file.slice(start, end + 1)
+    const last = start + body.length - 1
+    return new Response(body, {
+      status: 206,
+      headers: {
+        'content-range': `bytes ${start}-${last}/${
+          sizeless ? '*' : file.length
+        }`,
+      },
+    })
+  }
+}
+
+type Handler = (init?: RequestInit) => Response
+
+// answer each url with its handler, or fail like a server error
+function stubFetch(handlers: Record<string, Handler>) {
+  const fetch = vi.fn(async (url: string, init?: RequestInit) =>
+    handlers[url] ? handlers[url](init) : new Response(null, { status: 503 })
+  )
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+async function storePartial(file: Uint8Array, received: number) {
+  store.set(`${key}:chunk:0`, file.slice(0, received))
+  store.set(`${key}:partial`, { total: file.length, received, chunks: 1 })
+}
+
+describe('model downloads', () => {
+  beforeEach(() => {
+    store.clear()
+    // retries and restarts are logged
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(window, 'setTimeout').mockImplementation(((
+      callback: () => void
+    ) => {
+      callback()
+      return 0
+    }) as typeof window.setTimeout)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('resumes a partial download with a ranged request', async () => {
+    const file = modelFile(10)
+    await storePartial(file, 4)
+    const fetch = stubFetch({ [model.url]: serve(file) })
+
+    const buffer = await ensureModel('superResolution')
+    expect(sameBytes(buffer, file)).toBe(true)
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(fetch.mock.calls[0][1]?.headers).toEqual({
+      Range: `bytes=4-${4 + CHUNK_SIZE - 1}`,
+    })
+    expect(store.has(`${key}:partial`)).toBe(false)
+    expect(store.has(`${key}:chunk:0`)).toBe(false)
+  })
+
+  it('takes the whole file from a server that ignores Range', async () => {
+    const file = modelFile(10)
+    await storePartial(file, 4)
+    stubFetch({
+      [model.url]: () =>
+        new Response(file, {
+          status: 200,
+          headers: { 'content-length': `${file.length}` },
+        }),
+    })
+
+    const buffer = await ensureModel('superResolution')
+    expect(sameBytes(buffer, file)).toBe(true)
+    expect(store.has(`${key}:partial`)).toBe(false)
+  })
+
+  it('refuses a whole-file reply shorter than its Content-Length', async () => {
+    const file = modelFile(10)
+    const truncated = () =>
+      new Response(file.slice(0, 6), {
+        status: 200,
+        headers: { 'content-length': `${file.length}` },
+      })
+    stubFetch({ [model.url]: truncated, [model.backupUrl]: truncated })
+
+    await expect(ensureModel('superResolution')).rejects.toThrow(
+      'incomplete response: got 6 bytes, expected 10'
+    )
+    expect(store.has(key)).toBe(false)
+  })
+
+  it('ends a download of unknown size on a 416 reply', async () => {
+    const file = modelFile(CHUNK_SIZE)
+    const fetch = stubFetch({ [model.url]: serve(file, true) })
+
+    const buffer = await ensureModel('superResolution')
+    expect(sameBytes(buffer, file)).toBe(true)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps the known size when a reply has no total', async () => {
+    const main = modelFile(2 * CHUNK_SIZE + 10)
+    const mirror = modelFile(2 * CHUNK_SIZE + 20)
+    mirror[1] = 0xff
+    const sized = serve(main)
+    const sizeless = serve(main, true)
+    let calls = 0
+    stubFetch({
+      // a sized reply, a sizeless one, then the main url goes down
+      [model.url]: init => {
+        calls += 1
+        if (calls > 2) {
+          return new Response(null, { status: 503 })
+        }
+        return calls === 1 ? sized(init) : sizeless(init)
+      },
+      [model.backupUrl]: serve(mirror),
+    })
+
+    // the size of the first reply tells the mirror serves another file
+    const buffer = await ensureModel('superResolution')
+    expect(sameBytes(buffer, mirror)).toBe(true)
+  })
+
+  it('starts over when the mirror reports another size', async () => {
+    const main = modelFile(CHUNK_SIZE + 10)
+    const mirror = modelFile(CHUNK_SIZE + 20)
+    mirror[CHUNK_SIZE - 1] = 0xff
+    const served = serve(main)
+    let calls = 0
+    const fetch = stubFetch({
+      // the first chunk, then the main url goes down
+      [model.url]: init => {
+        calls += 1
+        return calls === 1 ? served(init) : new Response(null, { status: 503 })
+      },
+      [model.backupUrl]: serve(mirror),
+    })
+
+    const buffer = await ensureModel('superResolution')
+    expect(sameBytes(buffer, mirror)).toBe(true)
+    const mirrorRanges = fetch.mock.calls
+      .filter(([url]) => url === model.backupUrl)
+      .map(([, init]) => (init?.headers as Record<string, string>).Range)
+    expect(mirrorRanges).toEqual([
+      `bytes=${CHUNK_SIZE}-${2 * CHUNK_SIZE - 1}`,
+      `bytes=0-${CHUNK_SIZE - 1}`,
+      `bytes=${CHUNK_SIZE}-${2 * CHUNK_SIZE - 1}`,
+    ])
+  })
+})
@@ -1,142 +1,489 @@
 import localforage from 'localforage'
+import { getModel, getModelList, modelTypes } from './models'
+import type { modelType } from './models'
+import { getOnnxInputNames } from './onnx'
 
-export type modelType = 'inpaint' | 'superResolution' | 'raft'
+export type { modelType }
 
 localforage.config({
   name: 'modelCache',
 })
 
-export async function saveModel(modelType: modelType, modelBlob: ArrayBuffer) {
-  await localforage.setItem(getModel(modelType).name, modelBlob)
-}
-
-function getModel(modelType: modelType) {
-  if (modelType === 'inpaint') {
-    const modelList = [
-      {
-        name: 'model',
-        url: 'https://huggingface.co/lxfater/inpaint-web/resolve/main/migan.onnx',
-        backupUrl: '',
-      },
-      {
-        name: 'model-perf',
-        url: 'https://huggingface.co/andraniksargsyan/migan/resolve/main/migan.onnx',
-        backupUrl: '',
-      },
-      {
-        name: 'migan-pipeline-v2',
-        url: 'https://huggingface.co/andraniksargsyan/migan/resolve/main/migan_pipeline_v2.onnx',
-        backupUrl:
-          'https://worker-share-proxy-01f5.lxfater.workers.dev/andraniksargsyan/migan/resolve/main/migan_pipeline_v2.onnx',
-      },
-    ]
-    const currentModel = modelList[2]
-    return currentModel
-  }
-  if (modelType === 'superResolution') {
-    const modelList = [
-      {
-        name: 'realesrgan-x4',
-        url: 'https://huggingface.co/lxfater/inpaint-web/resolve/main/realesrgan-x4.onnx',
-        backupUrl:
-          'https://worker-share-proxy-01f5.lxfater.workers.dev/lxfater/inpaint-web/resolve/main/realesrgan-x4.onnx',
-      },
-    ]
-    const currentModel = modelList[0]
-    return currentModel
-  }
-  if (modelType === 'raft') {
-    const modelList = [
-      {
-        name: 'raft-optical-flow',
-        url: 'https://huggingface.co/opencv/optical_flow_estimation_raft/resolve/main/optical_flow_estimation_raft_2023aug_int8bq.onnx',
-        backupUrl: '',
-      },
-    ]
-    const currentModel = modelList[0]
-    return currentModel
-  }
-  throw new Error('wrong modelType')
-}
-
-export async function loadModel(modelType: modelType): Promise<ArrayBuffer> {
-  const model = (await localforage.getItem(
-    getModel(modelType).name
-  )) as ArrayBuffer
-  return model
+// how the cached models verified in this session did, hashing a model again
+// takes seconds
+const verified = new Map<string, verificationState>()
+
+// 'header' when the registry has no digest and only the ONNX header and the
+// length were checked
+export type verificationState = 'checksum' | 'header' | 'corrupted'
+
+// what the cache manager shows about a stored model
+export interface CachedModel {
+  modelType: modelType
+  name: string
+  version: string
+  label: string
+  byteLength: number
+  url: string
+  downloadedAt: number
+  verification: verificationState
 }
 
-export async function modelExists(modelType: modelType) {
-  const model = await loadModel(modelType)
-  return model !== null && model !== undefined
+interface ModelMeta {
+  url: string
+  downloadedAt: number
+  byteLength: number
 }
 
-export async function ensureModel(modelType: modelType) {
-  if (await modelExists(modelType)) {
-    return loadModel(modelType)
+// every stored item is keyed by model name and version, so a new upstream
+// file never gets mixed up with a stale copy
+const cacheKey = (modelType: modelType, name?: string) => {
+  const model = getModel(modelType, name)
+  return `${model.name}@${model.version}`
+}
+const metaKey = (key: string) => `${key}:meta`
+const partialKey = (key: string) => `${key}:partial`
+const chunkKey = (key: string, index: number) => `${key}:chunk:${index}`
+
+// bookkeeping for a download in progress, persisted so it survives reloads
+interface PartialDownload {
+  // full size in bytes, 0 until a server reported it
+  total: number
+  received: number
+  chunks: number
+}
+
+// model name -> version currently stored
+const MANIFEST_KEY = 'manifest'
+type Manifest = Record<string, string>
+
+async function clearPartial(key: string, chunks: number) {
+  await Promise.all(
+    Array.from({ length: chunks }, (_, i) =>
+      localforage.removeItem(chunkKey(key, i))
+    )
+  )
+  await localforage.removeItem(partialKey(key))
+}
+
+async function removeStored(key: string) {
+  const partial = await localforage.getItem<PartialDownload>(partialKey(key))
+  await clearPartial(key, partial?.chunks ?? 0)
+  await localforage.removeItem(key)
+  await localforage.removeItem(metaKey(key))
+  verified.delete(key)
+}
+
+async function setManifestVersion(name: string, version?: string) {
+  const manifest =
+    (await localforage.getItem<Manifest>(MANIFEST_KEY)) ?? ({} as Manifest)
+  if (version) {
+    manifest[name] = version
+  } else {
+    delete manifest[name]
   }
-  const model = getModel(modelType)
-  const response = await fetch(model.url)
-  const buffer = await response.arrayBuffer()
-  await saveModel(modelType, buffer)
-  return buffer
+  await localforage.setItem(MANIFEST_KEY, manifest)
 }
 
-export async function downloadModel(
+/**
+ * Drop cached copies whose version no longer matches the registry, and move
+ * entries stored before keys were versioned to the current version
+ */
+async function cleanupModels() {
+  const manifest =
+    (await localforage.getItem<Manifest>(MANIFEST_KEY)) ?? ({} as Manifest)
+  for (const type of modelTypes) {
+    for (const model of getModelList(type)) {
+      const key = `${model.name}@${model.version}`
+      const stored = manifest[model.name]
+      if (stored && stored !== model.version) {
+        console.log(`removing superseded model ${model.name}@${stored}`)
+        await removeStored(`${model.name}@${stored}`)
+        delete manifest[model.name]
+      }
+      const legacy = await localforage.getItem<ArrayBuffer>(model.name)
+      if (legacy && !manifest[model.name]) {
+        await localforage.setItem(key, legacy)
+        const meta = await localforage.getItem(metaKey(model.name))
+        if (meta) {
+          await localforage.setItem(metaKey(key), meta)
+        }
+        manifest[model.name] = model.version
+      }
+      await removeStored(model.name)
+    }
+  }
+  await localforage.setItem(MANIFEST_KEY, manifest)
+}
+
+let cleanup: Promise<void> | null = null
+function prepareCache() {
+  cleanup = cleanup ?? cleanupModels()
+  return cleanup
+}
+
+async function sha256(buffer: ArrayBuffer) {
+  const digest = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+export async function verifyModel(
   modelType: modelType,
-  setDownloadProgress: (arg0: number) => void
+  buffer: ArrayBuffer,
+  name?: string
+): Promise<verificationState> {
+  const model = getModel(modelType, name)
+  if (!buffer || buffer.byteLength === 0) {
+    throw new Error(`The ${model.label} model file is empty`)
+  }
+  // an ONNX ModelProto starts with its ir_version field (tag 0x08), anything
+  // else is usually an HTML error page from a proxy
+  if (new Uint8Array(buffer, 0, 1)[0] !== 0x08) {
+    throw new Error(`The ${model.label} model file is not a valid ONNX model`)
+  }
+  if (model.byteLength && buffer.byteLength !== model.byteLength) {
+    throw new Error(
+      `The ${model.label} model file is incomplete: got ${buffer.byteLength} bytes, expected ${model.byteLength}`
+    )
+  }
+  // downloads are still checked against Content-Length as they arrive
+  if (!model.sha256) {
+    return 'header'
+  }
+  if ((await sha256(buffer)) !== model.sha256) {
+    throw new Error(
+      `The ${model.label} model file failed checksum verification`
+    )
+  }
+  return 'checksum'
+}
+
+export async function saveModel(
+  modelType: modelType,
+  modelBlob: ArrayBuffer,
+  source = '',
+  name = getModel(modelType).name
 ) {
-  if (await modelExists(modelType)) {
-    return
+  await prepareCache()
+  const verification = await verifyModel(modelType, modelBlob, name)
+  const model = getModel(modelType, name)
+  const key = cacheKey(modelType, name)
+  await localforage.setItem(key, modelBlob)
+  await localforage.setItem<ModelMeta>(metaKey(key), {
+    url: source || model.url,
+    downloadedAt: Date.now(),
+    byteLength: modelBlob.byteLength,
+  })
+  await setManifestVersion(model.name, model.version)
+  verified.set(key, verification)
+}
+
+export async function loadModel(
+  modelType: modelType,
+  name = getModel(modelType).name
+): Promise<ArrayBuffer | null> {
+  await prepareCache()
+  const key = cacheKey(modelType, name)
+  const model = await localforage.getItem<ArrayBuffer>(key)
+  if (!model || verified.has(key)) {
+    return model
   }
+  try {
+    verified.set(key, await verifyModel(modelType, model, name))
+  } catch (e) {
+    // evict the corrupted copy so the next ensureModel/downloadModel refetches it
+    console.warn(`evicting cached model ${key}:`, e)
+    await removeStored(key)
+    await setManifestVersion(name)
+    return null
+  }
+  return model
+}
 
-  async function downloadFromUrl(url: string) {
-    console.log('start download from', url)
-    setDownloadProgress(0)
-    const response = await fetch(url)
-    const fullSize = response.headers.get('content-length')
-    const reader = response.body!.getReader()
-    const total: Uint8Array[] = []
-    let downloaded = 0
+export async function modelExists(modelType: modelType, name?: string) {
+  return (await loadModel(modelType, name)) !== null
+}
 
-    while (true) {
-      const { done, value } = await reader.read()
+const CHUNK_SIZE = 4 * 1024 * 1024
+const MAX_RETRIES = 3
 
-      if (done) {
-        break
-      }
+async function fetchRange(url: string, start: number, end: number) {
+  const response = await fetch(url, {
+    headers: { Range: `bytes=${start}-${end}` },
+  })
+  if (response.status === 416 && start > 0) {
+    // the file size was never reported and the last chunk ended exactly at
+    // the end of the file
+    return { data: new Uint8Array(0), total: 0, ranged: true }
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+  const data = new Uint8Array(await response.arrayBuffer())
+  if (response.status !== 206) {
+    // the server ignored the Range header and sent the whole file, make sure
+    // it all arrived
+    const length = Number(response.headers.get('content-length'))
+    if (
+      !response.headers.get('content-encoding') &&
+      length > 0 &&
+      data.byteLength !== length
+    ) {
+      throw new Error(
+        `incomplete response: got ${data.byteLength} bytes, expected ${length}`
+      )
+    }
+    return { data, total: data.byteLength, ranged: false }
+  }
+  // Content-Range: bytes 0-4194303/73471025
+  const total = Number(response.headers.get('content-range')?.split('/')[1])
+  return { data, total: Number.isFinite(total) ? total : 0, ranged: true }
+}
+
+/**
+ * Download a model in chunks, persisting each one so an interrupted download
+ * resumes where it stopped, and switching to backupUrl when the main url
+ * keeps failing
+ */
+async function fetchModel(
+  modelType: modelType,
+  onProgress: (progress: number) => void,
+  name?: string
+): Promise<{ buffer: ArrayBuffer; url: string }> {
+  const model = getModel(modelType, name)
+  const key = cacheKey(modelType, name)
+  const urls = [model.url, model.backupUrl].filter(Boolean)
+  const state: PartialDownload = (await localforage.getItem(
+    partialKey(key)
+  )) ?? { total: 0, received: 0, chunks: 0 }
 
-      downloaded += value?.length || 0
+  const report = () => {
+    // fall back to the registry estimate until the real size is known
+    const total = state.total || model.size
+    onProgress(Math.min((state.received / total) * 100, 99))
+  }
+  report()
 
-      if (value) {
-        total.push(value)
+  let urlIndex = 0
+  let failures = 0
+  while (!state.total || state.received < state.total) {
+    try {
+      const { data, total, ranged } = await fetchRange(
+        urls[urlIndex],
+        state.received,
+        state.received + CHUNK_SIZE - 1
+      )
+      if (!ranged) {
+        await clearPartial(key, state.chunks)
+        onProgress(100)
+        return { buffer: data.buffer, url: urls[urlIndex] }
       }
-
-      setDownloadProgress((downloaded / Number(fullSize)) * 100)
+      if (!data.byteLength) {
+        break
+      }
+      if (state.total && total && total !== state.total) {
+        // this mirror serves a different file than the chunks so far came
+        // from, start over rather than join the two
+        console.warn(`${urls[urlIndex]} reports another size, restarting`)
+        await clearPartial(key, state.chunks)
+        Object.assign(state, { total: 0, received: 0, chunks: 0 })
+      } else {
+        await localforage.setItem(chunkKey(key, state.chunks), data)
+        // keep a known size when a reply has no parsable Content-Range
+        state.total = total || state.total
+        state.received += data.byteLength
+        state.chunks += 1
+        await localforage.setItem(partialKey(key), state)
+      }
+      failures = 0
+      report()
+      if (!total && data.byteLength < CHUNK_SIZE) {
+        break
+      }
+    } catch (e) {
+      failures += 1
+      console.warn(`chunk download from ${urls[urlIndex]} failed:`, e)
+      if (failures >= MAX_RETRIES) {
+        if (urlIndex + 1 >= urls.length) {
+          throw e
+        }
+        urlIndex += 1
+        failures = 0
+        console.log('continue download from', urls[urlIndex])
+      }
+      await new Promise(resolve => {
+        setTimeout(resolve, 1000 * failures)
+      })
     }
+  }
 
-    const buffer = new Uint8Array(downloaded)
-    let offset = 0
-    for (const chunk of total) {
-      buffer.set(chunk, offset)
-      offset += chunk.length
-    }
+  const buffer = new Uint8Array(state.received)
+  let offset = 0
+  for (let i = 0; i < state.chunks; i += 1) {
+    const chunk = (await localforage.getItem(chunkKey(key, i))) as Uint8Array
+    buffer.set(chunk, offset)
+    offset += chunk.length
+  }
+  await clearPartial(key, state.chunks)
+  onProgress(100)
+  return { buffer: buffer.buffer, url: urls[urlIndex] }
+}
 
-    await saveModel(modelType, buffer)
-    setDownloadProgress(100)
+export async function ensureModel(modelType: modelType) {
+  const cached = await loadModel(modelType)
+  if (cached) {
+    return cached
   }
+  const { buffer, url } = await fetchModel(modelType, () => {})
+  await saveModel(modelType, buffer, url)
+  return buffer
+}
 
-  const model = getModel(modelType)
+// fetch a model and store it once it verified, a copy already stored is only
+// replaced then. Alerts on failure and tells whether the model was stored
+async function fetchAndSave(
+  modelType: modelType,
+  setDownloadProgress: (arg0: number) => void,
+  name: string
+) {
   try {
-    await downloadFromUrl(model.url)
+    console.log('start download', name)
+    const { buffer, url } = await fetchModel(
+      modelType,
+      // keep the progress modal open until the model is verified and stored
+      p => setDownloadProgress(Math.min(p, 99)),
+      name
+    )
+    await saveModel(modelType, buffer, url, name)
+    setDownloadProgress(100)
+    return true
   } catch (e) {
-    if (model.backupUrl) {
-      try {
-        await downloadFromUrl(model.backupUrl)
-      } catch (r) {
-        alert(`Failed to download the backup model: ${r}`)
+    alert(`Failed to download the model: ${(e as Error).message}`)
+    return false
+  }
+}
+
+/**
+ * Make sure a model is cached, false when it could not be downloaded
+ */
+export async function downloadModel(
+  modelType: modelType,
+  setDownloadProgress: (arg0: number) => void,
+  name = getModel(modelType).name
+) {
+  if (await modelExists(modelType, name)) {
+    return true
+  }
+  return fetchAndSave(modelType, setDownloadProgress, name)
+}
+
+/**
+ * Store a model file obtained out-of-band, so ensureModel works without
+ * network access
+ */
+export async function importModel(
+  modelType: modelType,
+  name: string,
+  file: File
+) {
+  const model = getModel(modelType, name)
+  const buffer = await file.arrayBuffer()
+  await verifyModel(modelType, buffer, name)
+  const inputs = getOnnxInputNames(buffer)
+  if (inputs.length !== model.inputCount) {
+    throw new Error(
+      `${file.name} does not look like the ${model.label} model, it takes ${inputs.length} inputs instead of ${model.inputCount}`
+    )
+  }
+  const missing = model.inputNames.filter(input => !inputs.includes(input))
+  if (missing.length) {
+    throw new Error(
+      `${file.name} does not look like the ${
+        model.label
+      } model, missing inputs: ${missing.join(', ')}`
+    )
+  }
+  await saveModel(modelType, buffer, `file:${file.name}`, name)
+}
+
+export async function getCachedModels(): Promise<CachedModel[]> {
+  await prepareCache()
+  const cached: CachedModel[] = []
+  for (const type of modelTypes) {
+    for (const model of getModelList(type)) {
+      const key = cacheKey(type, model.name)
+      const meta = await localforage.getItem<ModelMeta>(metaKey(key))
+      // only read and hash what this session did not verify yet
+      let verification = meta ? verified.get(key) : undefined
+      let byteLength = meta?.byteLength ?? 0
+      if (!verification) {
+        const buffer = await localforage.getItem<ArrayBuffer>(key)
+        if (buffer) {
+          byteLength = buffer.byteLength
+          try {
+            verification = await verifyModel(type, buffer, model.name)
+            verified.set(key, verification)
+          } catch (e) {
+            verification = 'corrupted'
+          }
+        }
+      }
+      if (verification) {
+        cached.push({
+          modelType: type,
+          name: model.name,
+          version: model.version,
+          label: model.label,
+          byteLength,
+          url: meta?.url ?? model.url,
+          downloadedAt: meta?.downloadedAt ?? 0,
+          verification,
+        })
       }
     }
-    alert(`Failed to download the model, network problem: ${e}`)
   }
+  return cached
+}
+
+export async function deleteModel(modelType: modelType, name: string) {
+  await prepareCache()
+  const key = cacheKey(modelType, name)
+  await removeStored(key)
+  await setManifestVersion(name)
+  console.log(`deleted ${modelType} model ${key}`)
+}
+
+/**
+ * Fetch a model again and replace the cached copy, which is kept when the
+ * new one fails to download or verify
+ */
+export async function refreshModel(
+  modelType: modelType,
+  setDownloadProgress: (arg0: number) => void,
+  name = getModel(modelType).name
+) {
+  return fetchAndSave(modelType, setDownloadProgress, name)
+}
+
+/**
+ * Fetch every model in the registry so the app keeps working offline
+ */
+export async function downloadAllModels(
+  onProgress: (label: string, progress: number) => void
+) {
+  for (const type of modelTypes) {
+    for (const model of getModelList(type)) {
+      await downloadModel(type, p => onProgress(model.label, p), model.name)
+    }
+  }
+}
+
+export async function getStorageEstimate() {
+  if (!navigator.storage?.estimate) {
+    return null
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
 }
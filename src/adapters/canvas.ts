@@ -0,0 +1,44 @@
+import type { RGBAImage } from './inferenceProtocol'
+
+/**
+ * Canvas helpers shared by the adapters that move pixels in and out of the
+ * inference worker
+ */
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'Anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load image from ${url}`))
+    img.src = url
+  })
+}
+
+export function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Unable to get canvas context')
+  }
+  return { canvas, ctx }
+}
+
+// draw a source scaled to width x height and read its pixels back
+export function getPixels(
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): RGBAImage {
+  const { ctx } = createCanvas(width, height)
+  ctx.drawImage(source, 0, 0, width, height)
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height }
+}
+
+export function toCanvas({ data, width, height }: RGBAImage) {
+  const { canvas, ctx } = createCanvas(width, height)
+  ctx.putImageData(new ImageData(data, width, height), 0, 0)
+  return canvas
+}
@@ -0,0 +1,58 @@
+/**
+ * Where models and the onnxruntime-web runtime are fetched from. Build time
+ * defaults come from VITE_* env vars and can be overridden at runtime from the
+ * cache manager, e.g. to point at a mirror on an air-gapped network
+ */
+export interface SourceConfig {
+  // replaces https://huggingface.co in model urls, '' keeps the registry urls
+  modelBaseUrl: string
+  // folder holding the ort*.js scripts and ort-wasm*.wasm binaries
+  runtimeBaseUrl: string
+}
+
+export const HUGGINGFACE_URL = 'https://huggingface.co'
+export const ORT_VERSION = '1.20.0'
+export const ORT_CDN_URL = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ORT_VERSION}/dist/`
+
+const SETTINGS_KEY = 'sourceSettings'
+
+export const defaultSourceConfig: SourceConfig = {
+  modelBaseUrl: import.meta.env.VITE_MODEL_BASE_URL ?? '',
+  runtimeBaseUrl: import.meta.env.VITE_RUNTIME_BASE_URL || ORT_CDN_URL,
+}
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`)
+
+export function getSourceConfig(): SourceConfig {
+  let overrides: Partial<SourceConfig> = {}
+  try {
+    overrides = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}')
+  } catch (e) {
+    console.warn('ignoring invalid source settings', e)
+  }
+  const config = { ...defaultSourceConfig, ...overrides }
+  return {
+    modelBaseUrl: config.modelBaseUrl.replace(/\/+$/, ''),
+    runtimeBaseUrl: withTrailingSlash(config.runtimeBaseUrl || ORT_CDN_URL),
+  }
+}
+
+export function setSourceConfig(config: Partial<SourceConfig>) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(config))
+}
+
+export function resetSourceConfig() {
+  localStorage.removeItem(SETTINGS_KEY)
+}
+
+/**
+ * Rewrite a registry url onto the configured model mirror, which is expected
+ * to keep the huggingface path layout
+ */
+export function resolveModelUrl(url: string) {
+  const { modelBaseUrl } = getSourceConfig()
+  if (!modelBaseUrl || !url.startsWith(HUGGINGFACE_URL)) {
+    return url
+  }
+  return `${modelBaseUrl}${url.slice(HUGGINGFACE_URL.length)}`
+}
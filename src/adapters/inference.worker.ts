@@ -0,0 +1,125 @@
+import type {
+  InferenceJob,
+  ModelPayload,
+  RGBAImage,
+  WorkerRequest,
+  WorkerResponse,
+} from './inferenceProtocol'
+import { runInpaint, runInpaint512, runSegment, runUpscale } from './pipelines'
+import type { PipelineContext } from './pipelines'
+import { openSession, releaseSessions } from './session'
+import { getCapabilities } from './util'
+
+class CancelledError extends Error {}
+
+let runtime: Promise<void> | null = null
+const cancelled = new Set<number>()
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+// the page loads ort as a classic script, a module worker imports its ESM
+// build from the same place instead
+function loadRuntime(runtimeBaseUrl: string) {
+  if (!runtime) {
+    runtime = getCapabilities().then(async capabilities => {
+      const file = capabilities.webgpu ? 'ort.webgpu.min.mjs' : 'ort.min.mjs'
+      const module = await import(/* @vite-ignore */ runtimeBaseUrl + file)
+      Object.assign(globalThis, { ort: module })
+    })
+    runtime.catch(() => {
+      runtime = null
+    })
+  }
+  return runtime
+}
+
+// the page only sends the model file when it thinks no session holds it
+function getSession(model: ModelPayload, runtimeBaseUrl: string) {
+  return openSession(
+    {
+      modelType: model.modelType,
+      model: model.key,
+      load: async () => {
+        if (!model.buffer) {
+          throw new Error(`${model.key} is not loaded in the inference worker`)
+        }
+        return model.buffer
+      },
+    },
+    {},
+    // the worker is the proxy already
+    { runtimeBaseUrl, proxy: false }
+  )
+}
+
+function runJob(context: PipelineContext, job: InferenceJob) {
+  switch (job.kind) {
+    case 'inpaint':
+      return runInpaint(context, job.image, job.mask)
+    case 'inpaint-512':
+      return runInpaint512(context, job.image, job.mask)
+    case 'upscale':
+      return runUpscale(context, job.image)
+    case 'segment':
+      return runSegment(context, job)
+    default:
+      throw new Error('unknown inference job')
+  }
+}
+
+async function run(request: Extract<WorkerRequest, { type: 'run' }>) {
+  const { id, model, runtimeBaseUrl } = request
+  const checkpoint = async () => {
+    // let a pending cancel message be handled first
+    await new Promise(resolve => {
+      setTimeout(resolve, 0)
+    })
+    if (cancelled.has(id)) {
+      throw new CancelledError()
+    }
+  }
+  try {
+    post({ type: 'stage', id, stage: 'session', progress: 0 })
+    await loadRuntime(runtimeBaseUrl)
+    const { session, provider } = await getSession(model, runtimeBaseUrl)
+    const companion = request.companion && {
+      session: (await getSession(request.companion, runtimeBaseUrl)).session,
+      model: request.companion,
+    }
+    await checkpoint()
+    const image: RGBAImage = await runJob(
+      {
+        session,
+        model,
+        companion,
+        report: (stage, progress) =>
+          post({ type: 'stage', id, stage, progress }),
+        checkpoint,
+      },
+      request.job
+    )
+    post({ type: 'result', id, image, provider }, [image.data.buffer])
+  } catch (e) {
+    if (e instanceof CancelledError) {
+      post({ type: 'cancelled', id })
+    } else {
+      console.error(`inference job ${id} failed`, e)
+      post({ type: 'error', id, message: (e as Error).message ?? `${e}` })
+    }
+  } finally {
+    cancelled.delete(id)
+  }
+}
+
+self.onmessage = (ev: MessageEvent<WorkerRequest>) => {
+  const request = ev.data
+  if (request.type === 'cancel') {
+    cancelled.add(request.id)
+  } else if (request.type === 'release') {
+    releaseSessions(request.modelType)
+  } else {
+    run(request)
+  }
+}
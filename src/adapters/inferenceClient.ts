@@ -0,0 +1,199 @@
+import { ensureModel } from './cache'
+import { getSourceConfig } from './config'
+import { companionModels, getModel } from './models'
+import type { modelType } from './models'
+import { onReleaseSessions } from './session'
+import type {
+  inferenceStage,
+  InferenceJob,
+  ModelPayload,
+  RGBAImage,
+  WorkerRequest,
+  WorkerResponse,
+} from './inferenceProtocol'
+
+export interface InferenceOptions {
+  // real progress of the job, 0-100
+  onStage?: (stage: inferenceStage, progress: number) => void
+  signal?: AbortSignal
+}
+
+interface PendingJob {
+  models: Pick<ModelPayload, 'modelType' | 'key'>[]
+  onStage?: InferenceOptions['onStage']
+  resolve: (image: RGBAImage) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+// the model the current worker holds a session for, per type, its buffer is
+// not resent. The worker keeps one session per type, so a new key replaces
+// the old one. Recorded once a job got past creating its sessions
+const loadedModels = new Map<modelType, string>()
+const jobs = new Map<number, PendingJob>()
+let nextJobId = 1
+
+export const abortError = () =>
+  new DOMException('Inference was cancelled', 'AbortError')
+
+export const isAbortError = (e: unknown) =>
+  e instanceof DOMException && e.name === 'AbortError'
+
+// past the session stage the worker holds a session for each of the models
+function markLoaded(job: PendingJob) {
+  job.models.forEach(({ modelType, key }) => loadedModels.set(modelType, key))
+}
+
+function onResponse(response: WorkerResponse) {
+  const job = jobs.get(response.id)
+  if (!job) {
+    // cancelled on this side already
+    return
+  }
+  if (response.type === 'stage') {
+    if (response.stage !== 'session') {
+      markLoaded(job)
+    }
+    job.onStage?.(response.stage, response.progress)
+    return
+  }
+  jobs.delete(response.id)
+  if (response.type === 'result') {
+    markLoaded(job)
+    console.log(`inference job ${response.id} ran on ${response.provider}`)
+    job.resolve(response.image)
+  } else if (response.type === 'cancelled') {
+    job.reject(abortError())
+  } else {
+    // the session may not have been created, send the model again next time
+    job.models.forEach(({ modelType }) => loadedModels.delete(modelType))
+    job.reject(new Error(response.message))
+  }
+}
+
+/**
+ * Terminate the inference worker, freeing every session it holds. It is
+ * started again by the next job
+ */
+function releaseInferenceWorker() {
+  worker?.terminate()
+  worker = null
+  loadedModels.clear()
+  jobs.forEach(job => job.reject(abortError()))
+  jobs.clear()
+}
+
+// releasing the sessions of the page releases the worker's too
+onReleaseSessions(modelType => {
+  if (!modelType) {
+    releaseInferenceWorker()
+  } else if (worker) {
+    loadedModels.delete(modelType)
+    worker.postMessage({ type: 'release', modelType } as WorkerRequest)
+  }
+})
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('./inference.worker.ts', import.meta.url), {
+      type: 'module',
+    })
+    worker.onmessage = (ev: MessageEvent<WorkerResponse>) => onResponse(ev.data)
+    worker.onerror = ev => {
+      console.error('inference worker crashed', ev)
+      const failed = Array.from(jobs.values())
+      jobs.clear()
+      releaseInferenceWorker()
+      failed.forEach(job => job.reject(new Error(ev.message)))
+    }
+  }
+  return worker
+}
+
+function transferables(job: InferenceJob): Transferable[] {
+  if (job.kind === 'upscale' || job.kind === 'segment') {
+    return [job.image.data.buffer]
+  }
+  return [job.image.data.buffer, job.mask.data.buffer]
+}
+
+// the selected model of a type, with its file unless the worker has it
+async function modelPayload(type: modelType): Promise<ModelPayload> {
+  const info = getModel(type)
+  const key = `${info.name}@${info.version}`
+  return {
+    modelType: type,
+    key,
+    inputNames: info.inputNames,
+    outputNames: info.outputNames,
+    buffer:
+      loadedModels.get(type) === key ? undefined : await ensureModel(type),
+  }
+}
+
+/**
+ * Run a job on the selected model of a modelType in the inference worker. The
+ * job's pixel buffers are transferred and unusable afterwards
+ */
+export async function runInference(
+  type: modelType,
+  job: InferenceJob,
+  { onStage, signal }: InferenceOptions = {}
+): Promise<RGBAImage> {
+  if (signal?.aborted) {
+    throw abortError()
+  }
+  const model = await modelPayload(type)
+  const companionType = companionModels[type]
+  const companion = companionType
+    ? await modelPayload(companionType)
+    : undefined
+  if (signal?.aborted) {
+    throw abortError()
+  }
+
+  const target = getWorker()
+  const id = nextJobId
+  nextJobId += 1
+  const models = companion ? [model, companion] : [model]
+  // the worker drops the session of another model before it creates this one
+  models.forEach(({ modelType, key }) => {
+    if (loadedModels.get(modelType) !== key) {
+      loadedModels.delete(modelType)
+    }
+  })
+  const request: WorkerRequest = {
+    type: 'run',
+    id,
+    runtimeBaseUrl: getSourceConfig().runtimeBaseUrl,
+    model,
+    companion,
+    job,
+  }
+
+  return new Promise<RGBAImage>((resolve, reject) => {
+    const onAbort = () => {
+      if (jobs.delete(id)) {
+        target.postMessage({ type: 'cancel', id } as WorkerRequest)
+        reject(abortError())
+      }
+    }
+    jobs.set(id, {
+      models: models.map(({ modelType, key }) => ({ modelType, key })),
+      onStage,
+      resolve: image => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(image)
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(error)
+      },
+    })
+    signal?.addEventListener('abort', onAbort, { once: true })
+    target.postMessage(request, [
+      ...transferables(job),
+      ...models.flatMap(({ buffer }) => (buffer ? [buffer] : [])),
+    ])
+  })
+}
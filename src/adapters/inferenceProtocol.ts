@@ -0,0 +1,70 @@
+import type { modelType } from './models'
+
+/**
+ * Messages exchanged with the inference worker. Pixel and model buffers are
+ * transferred, not copied, so the sender must not touch them afterwards
+ */
+
+// raw RGBA pixels, same layout as ImageData
+export interface RGBAImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// a segmentation click in pixels of the job's image, negative ones exclude
+// the area around them
+export interface SegmentPoint {
+  x: number
+  y: number
+  negative?: boolean
+}
+
+export type InferenceJob =
+  // MI-GAN pipeline: image and mask at the same size, white strokes = hole
+  | { kind: 'inpaint'; image: RGBAImage; mask: RGBAImage }
+  // plain MI-GAN generator: 512x512 image, mask alpha = hole
+  | { kind: 'inpaint-512'; image: RGBAImage; mask: RGBAImage }
+  | { kind: 'upscale'; image: RGBAImage }
+  // image with its longest side at the encoder resolution, the embeddings are
+  // kept for the next job with the same imageKey. Returns the mask, alpha =
+  // selected
+  | {
+      kind: 'segment'
+      imageKey: string
+      image: RGBAImage
+      points: SegmentPoint[]
+    }
+
+export interface ModelPayload {
+  modelType: modelType
+  // model name and version, a new key replaces the session of the modelType
+  key: string
+  inputNames: string[]
+  outputNames: string[]
+  // only sent when the worker does not hold a session for the key yet
+  buffer?: ArrayBuffer
+}
+
+export type inferenceStage = 'session' | 'preprocess' | 'run' | 'postprocess'
+
+export type WorkerRequest =
+  | {
+      type: 'run'
+      id: number
+      runtimeBaseUrl: string
+      model: ModelPayload
+      // second model of a two stage job, e.g. a segmentation decoder
+      companion?: ModelPayload
+      job: InferenceJob
+    }
+  | { type: 'cancel'; id: number }
+  // free the sessions of one modelType, or all of them
+  | { type: 'release'; modelType?: modelType }
+
+export type WorkerResponse =
+  // progress is 0-100 over the whole job
+  | { type: 'stage'; id: number; stage: inferenceStage; progress: number }
+  | { type: 'result'; id: number; image: RGBAImage; provider: string }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string }
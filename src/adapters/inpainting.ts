@@ -1,236 +1,197 @@
-// @ts-nocheck
-/* eslint-disable camelcase */
-/* eslint-disable no-plusplus */
-import cv, { Mat } from 'opencv-ts'
-import { ensureModel } from './cache'
-import { getCapabilities } from './util'
-import type { modelType } from './cache'
-// ort.env.debug = true
-// ort.env.logLevel = 'verbose'
-// ort.env.webgpu.profilingMode = 'default'
-
-function loadImage(url: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = 'Anonymous'
-    img.onload = () => resolve(img)
-    img.onerror = () => reject(new Error(`Failed to load image from ${url}`))
-    img.src = url
-  })
-}
-function imgProcess(img: Mat) {
+import cv from 'opencv-ts'
+import { createCanvas, getPixels, loadImage, toCanvas } from './canvas'
+import { getModel } from './models'
+import { runInference } from './inferenceClient'
+import type { InferenceOptions } from './inferenceClient'
+import type { ModelInfo } from './models'
+import { defaultMaskRefinement, featherMask, refineMask } from './mask'
+import type { MaskRefinement } from './mask'
+
+// Masks come either as white strokes on transparent or white on black, turn
+// both into a canvas whose alpha channel marks the hole
+function maskToAlpha(mark: HTMLImageElement, width: number, height: number) {
+  const { canvas, ctx } = createCanvas(width, height)
+  ctx.drawImage(mark, 0, 0, width, height)
+  const src = cv.imread(canvas)
   const channels = new cv.MatVector()
-  cv.split(img, channels) // 分割通道
-
-  const C = channels.size() // 通道数
-  const H = img.rows // 图像高度
-  const W = img.cols // 图像宽度
-
-  const chwArray = new Uint8Array(C * H * W) // 创建新的数组来存储转换后的数据
-
-  for (let c = 0; c < C; c++) {
-    const channelData = channels.get(c).data // 获取单个通道的数据
-    for (let h = 0; h < H; h++) {
-      for (let w = 0; w < W; w++) {
-        chwArray[c * H * W + h * W + w] = channelData[h * W + w]
-        // chwArray[c * H * W + h * W + w] = channelData[h * W + w]
-      }
-    }
+  cv.split(src, channels)
+  const rgb = [0, 1, 2].map(i => channels.get(i))
+  const markAlpha = channels.get(3)
+  const alpha = new cv.Mat()
+  cv.multiply(rgb[0], markAlpha, alpha, 1 / 255)
+  const merged = new cv.MatVector()
+  rgb.forEach(channel => merged.push_back(channel))
+  merged.push_back(alpha)
+  try {
+    cv.merge(merged, src)
+    cv.imshow(canvas, src)
+    return canvas
+  } finally {
+    src.delete()
+    channels.delete()
+    rgb.forEach(channel => channel.delete())
+    markAlpha.delete()
+    alpha.delete()
+    merged.delete()
   }
-
-  channels.delete() // 清理内存
-  return chwArray // 返回转换后的数据
 }
-function markProcess(img: Mat) {
-  const channels = new cv.MatVector()
-  cv.split(img, channels) // 分割通道
-
-  const C = 1 // 通道数
-  const H = img.rows // 图像高度
-  const W = img.cols // 图像宽度
-
-  const chwArray = new Uint8Array(C * H * W) // 创建新的数组来存储转换后的数据
 
-  for (let c = 0; c < C; c++) {
-    const channelData = channels.get(0).data // 获取单个通道的数据
-    for (let h = 0; h < H; h++) {
-      for (let w = 0; w < W; w++) {
-        chwArray[c * H * W + h * W + w] = (channelData[h * W + w] !== 255) * 255
-      }
-    }
+/**
+ * The part of the image an inpainting replaced, alpha = how much of the model
+ * output was used, drawn at width x height. `scale` converts the refinement
+ * from the pixels of the image that was inpainted
+ */
+export async function patchMask(
+  mask: Blob,
+  width: number,
+  height: number,
+  refinement?: Partial<MaskRefinement>,
+  scale = 1
+) {
+  const settings = { ...defaultMaskRefinement, ...refinement }
+  const url = URL.createObjectURL(mask)
+  try {
+    const mark = await loadImage(url)
+    return featherMask(
+      refineMask(maskToAlpha(mark, width, height), settings, scale),
+      settings.feather * scale
+    )
+  } finally {
+    URL.revokeObjectURL(url)
   }
-
-  channels.delete() // 清理内存
-  return chwArray // 返回转换后的数据
 }
-function processImage(
-  img: HTMLImageElement,
-  canvasId?: string
-): Promise<Uint8Array> {
-  return new Promise((resolve, reject) => {
-    try {
-      const src = cv.imread(img)
-      const src_rgb = new cv.Mat()
-      // 将图像从RGBA转换为RGB
-      cv.cvtColor(src, src_rgb, cv.COLOR_RGBA2RGB)
-      if (canvasId) {
-        cv.imshow(canvasId, src_rgb)
-      }
-      resolve(imgProcess(src_rgb))
 
-      src.delete()
-      src_rgb.delete()
-    } catch (error) {
-      reject(error)
-    }
-  })
+// The plain MI-GAN generator works on a fixed size input, its output is scaled
+// back to the size of the image
+async function runMigan512(
+  image: HTMLCanvasElement,
+  mask: HTMLCanvasElement,
+  size: number,
+  options: InferenceOptions
+) {
+  const output = await runInference(
+    'inpaint',
+    {
+      kind: 'inpaint-512',
+      image: getPixels(image, size, size),
+      mask: getPixels(mask, size, size),
+    },
+    options
+  )
+  const { canvas, ctx } = createCanvas(image.width, image.height)
+  ctx.drawImage(toCanvas(output), 0, 0, image.width, image.height)
+  return canvas
 }
 
-function processMark(
-  img: HTMLImageElement,
-  canvasId?: string
-): Promise<Uint8Array> {
-  return new Promise((resolve, reject) => {
-    try {
-      const src = cv.imread(img)
-      const src_grey = new cv.Mat()
-
-      // 将图像从RGBA转换为二值化
-      cv.cvtColor(src, src_grey, cv.COLOR_BGR2GRAY)
+export interface InpaintOptions extends InferenceOptions {
+  // run the model on the masked region and some context around it instead of
+  // the whole image, on by default
+  crop?: boolean
+  // scale the region down to the model's resolution when it is larger
+  downscale?: boolean
+  // mask post-processing, nothing beyond the refined mask and its feathered
+  // edge is touched
+  refinement?: Partial<MaskRefinement>
+}
 
-      if (canvasId) {
-        cv.imshow(canvasId, src_grey)
-      }
+interface Region {
+  x: number
+  y: number
+  width: number
+  height: number
+}
 
-      resolve(markProcess(src_grey))
+// context kept around the mask so the model knows what to fill it with
+const CROP_MARGIN = 128
 
-      src.delete()
-    } catch (error) {
-      reject(error)
-    }
-  })
+function getMaskBounds(mask: HTMLCanvasElement): Region | null {
+  const src = cv.imread(mask)
+  const channels = new cv.MatVector()
+  cv.split(src, channels)
+  const alpha = channels.get(3)
+  try {
+    // the non-zero pixels of a single channel image
+    const { x, y, width, height } = cv.boundingRect(alpha)
+    return width && height ? { x, y, width, height } : null
+  } finally {
+    src.delete()
+    channels.delete()
+    alpha.delete()
+  }
 }
-function postProcess(uint8Data: Uint8Array, width: number, height: number) {
-  const chwToHwcData = []
-  const size = width * height
 
-  for (let h = 0; h < height; h++) {
-    for (let w = 0; w < width; w++) {
-      for (let c = 0; c < 3; c++) {
-        // RGB通道
-        const chwIndex = c * size + h * width + w
-        const pixelVal = uint8Data[chwIndex]
-        let newPiex = pixelVal
-        if (pixelVal > 255) {
-          newPiex = 255
-        } else if (pixelVal < 0) {
-          newPiex = 0
-        }
-        chwToHwcData.push(newPiex) // 归一化反转
-      }
-      chwToHwcData.push(255) // Alpha通道
-    }
+function padRegion(bounds: Region, width: number, height: number): Region {
+  const margin = Math.max(
+    CROP_MARGIN,
+    Math.round(Math.max(bounds.width, bounds.height) / 4)
+  )
+  const x = Math.max(0, bounds.x - margin)
+  const y = Math.max(0, bounds.y - margin)
+  return {
+    x,
+    y,
+    width: Math.min(width, bounds.x + bounds.width + margin) - x,
+    height: Math.min(height, bounds.y + bounds.height + margin) - y,
   }
-  return chwToHwcData
 }
 
-function imageDataToDataURL(imageData) {
-  // 创建 canvas
-  const canvas = document.createElement('canvas')
-  canvas.width = imageData.width
-  canvas.height = imageData.height
-
-  // 绘制 imageData 到 canvas
-  const ctx = canvas.getContext('2d')
-  ctx.putImageData(imageData, 0, 0)
-
-  // 导出为数据 URL
-  return canvas.toDataURL()
+function cropCanvas(source: CanvasImageSource, region: Region) {
+  const { canvas, ctx } = createCanvas(region.width, region.height)
+  ctx.drawImage(
+    source,
+    region.x,
+    region.y,
+    region.width,
+    region.height,
+    0,
+    0,
+    region.width,
+    region.height
+  )
+  return canvas
 }
 
-function configEnv(capabilities) {
-  ort.env.wasm.wasmPaths =
-    'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.20.0/dist/'
-  if (capabilities.webgpu) {
-    ort.env.wasm.numThreads = 1
-  } else {
-    if (capabilities.threads) {
-      ort.env.wasm.numThreads = navigator.hardwareConcurrency ?? 4
-    }
-    if (capabilities.simd) {
-      ort.env.wasm.simd = true
-    }
-    ort.env.wasm.proxy = true
+// inpaint one region, the raw model output at the size of the region
+async function inpaintRegion(
+  image: HTMLCanvasElement,
+  mask: HTMLCanvasElement,
+  info: ModelInfo,
+  { downscale = false, ...options }: InpaintOptions
+) {
+  if (info.preprocess === 'migan-512') {
+    return runMigan512(image, mask, info.resolution, options)
+  }
+  const { width, height } = image
+  const scale =
+    downscale && info.resolution
+      ? Math.min(1, info.resolution / Math.max(width, height))
+      : 1
+  const w = Math.max(1, Math.round(width * scale))
+  const h = Math.max(1, Math.round(height * scale))
+  const output = await runInference(
+    'inpaint',
+    {
+      kind: 'inpaint',
+      image: getPixels(image, w, h),
+      mask: getPixels(mask, w, h),
+    },
+    options
+  )
+  if (scale === 1) {
+    return toCanvas(output)
   }
-  console.log('env', ort.env.wasm)
+  const { canvas, ctx } = createCanvas(width, height)
+  ctx.drawImage(toCanvas(output), 0, 0, width, height)
+  return canvas
 }
-const resizeMark = (
-  image: HTMLImageElement,
-  width: number,
-  height: number
-): Promise<HTMLImageElement> => {
-  return new Promise((resolve, reject) => {
-    const canvas = document.createElement('canvas')
-    canvas.width = width
-    canvas.height = height
 
-    // 将图片绘制到canvas上，并调整大小
-    const ctx = canvas.getContext('2d')
-    if (!ctx) {
-      reject(new Error('Unable to get canvas context'))
-      return
-    }
-    ctx.drawImage(image, 0, 0, width, height)
-
-    // 获取调整大小后的图片URL
-    const resizedImageUrl = canvas.toDataURL()
-
-    // 创建一个新的Image对象并设置其src为调整大小后的图片URL
-    const resizedImage = new Image()
-    resizedImage.onload = () => resolve(resizedImage)
-    resizedImage.onerror = () =>
-      reject(new Error('Failed to load resized image'))
-    resizedImage.src = resizedImageUrl
-  })
-}
-let model: ArrayBuffer | null = null
 export default async function inpaint(
   imageFile: File | HTMLImageElement,
-  maskBase64: string
+  maskBase64: string,
+  { crop = true, refinement, ...options }: InpaintOptions = {}
 ) {
-  console.time('sessionCreate')
-  if (!model) {
-    const capabilities = await getCapabilities()
-    configEnv(capabilities)
-    const modelBuffer = await ensureModel('inpaint')
-    
-    // Try multiple execution providers with fallback
-    const providersToTry = capabilities.webgpu 
-      ? ['webgpu', 'wasm'] 
-      : ['wasm']
-    
-    let lastError = null
-    for (const provider of providersToTry) {
-      try {
-        console.log(`[Inpainting] Trying execution provider: ${provider}`)
-        model = await ort.InferenceSession.create(modelBuffer, {
-          executionProviders: [provider],
-        })
-        console.log(`[Inpainting] Successfully created session with ${provider}`)
-        break
-      } catch (err) {
-        console.warn(`[Inpainting] Failed with ${provider}:`, err)
-        lastError = err
-      }
-    }
-    
-    if (!model) {
-      throw new Error(`Failed to create inpainting session. Last error: ${lastError?.message}`)
-    }
-  }
-  console.timeEnd('sessionCreate')
-  console.time('preProcess')
-
+  const info = getModel('inpaint')
+  const settings = { ...defaultMaskRefinement, ...refinement }
   const [originalImg, originalMark] = await Promise.all([
     imageFile instanceof HTMLImageElement
       ? imageFile
@@ -238,55 +199,34 @@ export default async function inpaint(
     loadImage(maskBase64),
   ])
 
-  const [img, mark] = await Promise.all([
-    processImage(originalImg),
-    processMark(
-      await resizeMark(originalMark, originalImg.width, originalImg.height)
-    ),
-  ])
-
-  const imageTensor = new ort.Tensor('uint8', img, [
-    1,
-    3,
-    originalImg.height,
-    originalImg.width,
-  ])
-
-  const maskTensor = new ort.Tensor('uint8', mark, [
-    1,
-    1,
-    originalImg.height,
-    originalImg.width,
-  ])
-
-  const Feed: {
-    [key: string]: any
-  } = {
-    [model.inputNames[0]]: imageTensor,
-    [model.inputNames[1]]: maskTensor,
-  }
-
-  console.timeEnd('preProcess')
-
-  console.time('run')
-  const results = await model.run(Feed)
-  console.timeEnd('run')
-
-  console.time('postProcess')
-  const outsTensor = results[model.outputNames[0]]
-  const chwToHwcData = postProcess(
-    outsTensor.data,
-    originalImg.width,
-    originalImg.height
+  const { width, height } = originalImg
+  // the mask is drawn at display size, scale it to the image
+  const mask = refineMask(maskToAlpha(originalMark, width, height), settings)
+  const bounds = crop ? getMaskBounds(mask) : null
+  const region = bounds
+    ? padRegion(bounds, width, height)
+    : { x: 0, y: 0, width, height }
+
+  const regionMask = cropCanvas(mask, region)
+
+  console.time('inpaint')
+  const output = await inpaintRegion(
+    cropCanvas(originalImg, region),
+    regionMask,
+    info,
+    options
   )
-  const imageData = new ImageData(
-    new Uint8ClampedArray(chwToHwcData),
-    originalImg.width,
-    originalImg.height
-  )
-  console.log(imageData, 'imageData')
-  const result = imageDataToDataURL(imageData)
-  console.timeEnd('postProcess')
-
-  return result
+  console.timeEnd('inpaint')
+
+  // only the masked area is taken from the model, the rest of the image keeps
+  // its exact pixels however many edits are made
+  const patch = createCanvas(region.width, region.height)
+  patch.ctx.drawImage(output, 0, 0)
+  patch.ctx.globalCompositeOperation = 'destination-in'
+  patch.ctx.drawImage(featherMask(regionMask, settings.feather), 0, 0)
+
+  const result = createCanvas(width, height)
+  result.ctx.drawImage(originalImg, 0, 0)
+  result.ctx.drawImage(patch.canvas, region.x, region.y)
+  return result.canvas.toDataURL()
 }
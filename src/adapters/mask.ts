@@ -0,0 +1,184 @@
+import cv, { Mat } from 'opencv-ts'
+import { createCanvas } from './canvas'
+
+/**
+ * Mask post-processing applied before inpainting. Masks are canvases whose
+ * alpha channel marks the hole
+ */
+export interface MaskRefinement {
+  // grow the mask by this many pixels, to cover halos around objects
+  dilate: number
+  // shrink it first, drops specks and thin stray strokes
+  erode: number
+  // soft edge in pixels where the result fades into the image
+  feather: number
+  // fill the areas a stroke encloses
+  fillHoles: boolean
+}
+
+export const defaultMaskRefinement: MaskRefinement = {
+  dilate: 0,
+  erode: 0,
+  feather: 4,
+  fillHoles: false,
+}
+
+export function isMaskReshaped({ dilate, erode, fillHoles }: MaskRefinement) {
+  return dilate > 0 || erode > 0 || fillHoles
+}
+
+function morph(
+  operation: 'erode' | 'dilate',
+  binary: Mat,
+  radius: number
+): void {
+  if (radius <= 0) {
+    return
+  }
+  const size = 2 * radius + 1
+  const kernel = cv.getStructuringElement(
+    cv.MORPH_ELLIPSE,
+    new cv.Size(size, size),
+    new cv.Point(-1, -1)
+  )
+  cv[operation](
+    binary,
+    binary,
+    kernel,
+    new cv.Point(-1, -1),
+    1,
+    cv.BORDER_CONSTANT,
+    cv.morphologyDefaultBorderValue()
+  )
+  kernel.delete()
+}
+
+// a single channel mask as a white canvas whose alpha is the mask
+function binaryToCanvas(binary: Mat) {
+  const { canvas, ctx } = createCanvas(binary.cols, binary.rows)
+  const imageData = ctx.createImageData(binary.cols, binary.rows)
+  const { data } = imageData
+  for (let i = 0; i < binary.data.length; i += 1) {
+    data[i * 4] = 255
+    data[i * 4 + 1] = 255
+    data[i * 4 + 2] = 255
+    data[i * 4 + 3] = binary.data[i]
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return canvas
+}
+
+/**
+ * Erode, dilate and fill the holes of a mask. Sizes are in pixels of the image
+ * the mask will be applied to, `scale` converts them when the mask is drawn at
+ * another size, e.g. for a preview on the display canvas
+ */
+export function refineMask(
+  mask: HTMLCanvasElement,
+  refinement: MaskRefinement,
+  scale = 1
+) {
+  if (!isMaskReshaped(refinement)) {
+    return mask
+  }
+  const src = cv.imread(mask)
+  const channels = new cv.MatVector()
+  cv.split(src, channels)
+  const alpha = channels.get(3)
+  const binary = new cv.Mat()
+  cv.threshold(alpha, binary, 0, 255, cv.THRESH_BINARY)
+
+  try {
+    if (refinement.fillHoles) {
+      const contours = new cv.MatVector()
+      const hierarchy = new cv.Mat()
+      cv.findContours(
+        binary,
+        contours,
+        hierarchy,
+        cv.RETR_EXTERNAL,
+        cv.CHAIN_APPROX_SIMPLE
+      )
+      cv.drawContours(binary, contours, -1, new cv.Scalar(255), cv.FILLED)
+      contours.delete()
+      hierarchy.delete()
+    }
+    morph('erode', binary, Math.round(refinement.erode * scale))
+    morph('dilate', binary, Math.round(refinement.dilate * scale))
+
+    return binaryToCanvas(binary)
+  } finally {
+    src.delete()
+    channels.delete()
+    alpha.delete()
+    binary.delete()
+  }
+}
+
+/**
+ * The hole's alpha grown by a soft edge of about radius pixels, the hole
+ * itself stays fully opaque
+ */
+export function featherMask(mask: HTMLCanvasElement, radius: number) {
+  if (radius <= 0) {
+    return mask
+  }
+  const { canvas, ctx } = createCanvas(mask.width, mask.height)
+  ctx.filter = `blur(${radius / 2}px)`
+  ctx.drawImage(mask, 0, 0)
+  ctx.filter = 'none'
+  ctx.drawImage(mask, 0, 0)
+  return canvas
+}
+
+/**
+ * Magic wand, the pixels connected to `seed` whose color is within `tolerance`
+ * of its color, as a mask the size of the image
+ */
+export function selectSimilar(
+  image: HTMLImageElement | HTMLCanvasElement,
+  seed: { x: number; y: number },
+  tolerance: number
+) {
+  const src = cv.imread(image)
+  const rgb = new cv.Mat()
+  cv.cvtColor(src, rgb, cv.COLOR_RGBA2RGB)
+  // floodFill wants a mask one pixel larger than the image on every side
+  const filled = new cv.Mat(
+    rgb.rows + 2,
+    rgb.cols + 2,
+    cv.CV_8UC1,
+    new cv.Scalar(0)
+  )
+  const diff = new cv.Scalar(tolerance, tolerance, tolerance)
+  // the typings only have the overload without a mask
+  const floodFill = cv.floodFill as unknown as (...args: unknown[]) => void
+  try {
+    floodFill(
+      rgb,
+      filled,
+      new cv.Point(
+        Math.min(Math.max(Math.round(seed.x), 0), rgb.cols - 1),
+        Math.min(Math.max(Math.round(seed.y), 0), rgb.rows - 1)
+      ),
+      new cv.Scalar(255),
+      new cv.Rect(),
+      diff,
+      diff,
+      // 4-connected, mask value 255, compared to the seed instead of the
+      // neighbours and leaving the image untouched
+      4 + 255 * 256 + cv.FLOODFILL_FIXED_RANGE + cv.FLOODFILL_MASK_ONLY
+    )
+    // copy the region out, a roi shares the larger mask's rows
+    const roi = filled.roi(new cv.Rect(1, 1, rgb.cols, rgb.rows))
+    const selection = roi.clone()
+    roi.delete()
+    const mask = binaryToCanvas(selection)
+    selection.delete()
+    return mask
+  } finally {
+    src.delete()
+    rgb.delete()
+    filled.delete()
+  }
+}
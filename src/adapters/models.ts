@@ -0,0 +1,256 @@
+import { getSourceConfig, resolveModelUrl } from './config'
+
+export const modelTypes = [
+  'inpaint',
+  'superResolution',
+  'raft',
+  'segment',
+  'segmentDecoder',
+] as const
+
+export type modelType = (typeof modelTypes)[number]
+
+/**
+ * How an adapter has to prepare tensors for a model
+ * - migan-pipeline: uint8 RGB image + uint8 mask (0 = hole) at any size, uint8 RGB out
+ * - migan-512: single float32 tensor [mask - 0.5, image * mask] in [-1, 1] at 512x512
+ * - esrgan-x4: float32 RGB in [0, 1], run in 64px tiles, 4x output
+ * - raft: pair of float32 frames, optical flow out
+ * - sam-encoder: float32 RGB normalized with the ImageNet mean/std, longest
+ *   side scaled to 1024 and zero padded to 1024x1024, image embeddings out
+ * - sam-decoder: click points in the 1024 frame + int64 labels + both
+ *   embeddings, iou scores and 256x256 mask logits out
+ */
+export type preprocessContract =
+  | 'migan-pipeline'
+  | 'migan-512'
+  | 'esrgan-x4'
+  | 'raft'
+  | 'sam-encoder'
+  | 'sam-decoder'
+
+export interface ModelInfo {
+  name: string
+  // bump when the upstream file changes, other cached versions get dropped
+  version: string
+  label: string
+  url: string
+  backupUrl: string
+  // approximate download size in bytes
+  size: number
+  // exact byte length and hex SHA-256 of the published file, 0/'' to skip
+  byteLength: number
+  sha256: string
+  // tensor names in feed order, empty when the graph is addressed by position
+  inputNames: string[]
+  // number of graph inputs fed at run time, checked on import when the names
+  // are not known
+  inputCount: number
+  outputNames: string[]
+  preprocess: preprocessContract
+  // side length the model was trained at, 0 when it does not matter
+  resolution: number
+}
+
+const MB = 1024 * 1024
+
+const registry: Record<modelType, ModelInfo[]> = {
+  inpaint: [
+    {
+      name: 'model',
+      version: '1',
+      label: 'MI-GAN',
+      url: 'https://huggingface.co/lxfater/inpaint-web/resolve/main/migan.onnx',
+      backupUrl: '',
+      size: 30 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: ['image', 'mask'],
+      inputCount: 2,
+      outputNames: ['result'],
+      preprocess: 'migan-pipeline',
+      resolution: 512,
+    },
+    {
+      name: 'model-perf',
+      version: '1',
+      label: 'MI-GAN 512',
+      url: 'https://huggingface.co/andraniksargsyan/migan/resolve/main/migan.onnx',
+      backupUrl: '',
+      size: 30 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: [],
+      inputCount: 1,
+      outputNames: [],
+      preprocess: 'migan-512',
+      resolution: 512,
+    },
+    {
+      name: 'migan-pipeline-v2',
+      version: '1',
+      label: 'MI-GAN pipeline v2',
+      url: 'https://huggingface.co/andraniksargsyan/migan/resolve/main/migan_pipeline_v2.onnx',
+      backupUrl:
+        'https://worker-share-proxy-01f5.lxfater.workers.dev/andraniksargsyan/migan/resolve/main/migan_pipeline_v2.onnx',
+      size: 30 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: ['image', 'mask'],
+      inputCount: 2,
+      outputNames: ['result'],
+      preprocess: 'migan-pipeline',
+      resolution: 512,
+    },
+  ],
+  superResolution: [
+    {
+      name: 'realesrgan-x4',
+      version: '1',
+      label: 'Real-ESRGAN x4',
+      url: 'https://huggingface.co/lxfater/inpaint-web/resolve/main/realesrgan-x4.onnx',
+      backupUrl:
+        'https://worker-share-proxy-01f5.lxfater.workers.dev/lxfater/inpaint-web/resolve/main/realesrgan-x4.onnx',
+      size: 70 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: ['input.1'],
+      inputCount: 1,
+      outputNames: ['1895'],
+      preprocess: 'esrgan-x4',
+      resolution: 0,
+    },
+  ],
+  raft: [
+    {
+      name: 'raft-optical-flow',
+      version: '1',
+      label: 'RAFT',
+      url: 'https://huggingface.co/opencv/optical_flow_estimation_raft/resolve/main/optical_flow_estimation_raft_2023aug_int8bq.onnx',
+      backupUrl: '',
+      size: 48 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: [],
+      inputCount: 2,
+      outputNames: [],
+      preprocess: 'raft',
+      resolution: 0,
+    },
+  ],
+  segment: [
+    {
+      name: 'slimsam-encoder',
+      version: '1',
+      label: 'SlimSAM encoder',
+      url: 'https://huggingface.co/Xenova/slimsam-77-uniform/resolve/main/onnx/vision_encoder_quantized.onnx',
+      backupUrl: '',
+      size: 10 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: ['pixel_values'],
+      inputCount: 1,
+      outputNames: ['image_embeddings', 'image_positional_embeddings'],
+      preprocess: 'sam-encoder',
+      resolution: 1024,
+    },
+  ],
+  // second stage of segment, run once per click on the cached embeddings
+  segmentDecoder: [
+    {
+      name: 'slimsam-decoder',
+      version: '1',
+      label: 'SlimSAM decoder',
+      url: 'https://huggingface.co/Xenova/slimsam-77-uniform/resolve/main/onnx/prompt_encoder_mask_decoder_quantized.onnx',
+      backupUrl: '',
+      size: 5 * MB,
+      byteLength: 0,
+      sha256: '',
+      inputNames: [
+        'input_points',
+        'input_labels',
+        'image_embeddings',
+        'image_positional_embeddings',
+      ],
+      inputCount: 4,
+      outputNames: ['iou_scores', 'pred_masks'],
+      preprocess: 'sam-decoder',
+      resolution: 1024,
+    },
+  ],
+}
+
+// models that need a second model of another type in the same job
+export const companionModels: Partial<Record<modelType, modelType>> = {
+  segment: 'segmentDecoder',
+}
+
+const defaultModel: Record<modelType, string> = {
+  inpaint: 'migan-pipeline-v2',
+  superResolution: 'realesrgan-x4',
+  raft: 'raft-optical-flow',
+  segment: 'slimsam-encoder',
+  segmentDecoder: 'slimsam-decoder',
+}
+
+const selectionKey = (modelType: modelType) => `selectedModel:${modelType}`
+
+export function getModelList(modelType: modelType): ModelInfo[] {
+  const list = registry[modelType]
+  if (!list) {
+    throw new Error('wrong modelType')
+  }
+  const { modelBaseUrl } = getSourceConfig()
+  return list.map(model => ({
+    ...model,
+    url: resolveModelUrl(model.url),
+    // the backup proxy is unreachable where a mirror is needed
+    backupUrl: modelBaseUrl ? '' : model.backupUrl,
+  }))
+}
+
+export function getModel(modelType: modelType, name?: string): ModelInfo {
+  const list = getModelList(modelType)
+  const wanted =
+    name ??
+    localStorage.getItem(selectionKey(modelType)) ??
+    defaultModel[modelType]
+  return (
+    list.find(model => model.name === wanted) ??
+    list.find(model => model.name === defaultModel[modelType]) ??
+    list[0]
+  )
+}
+
+/**
+ * Guess which registry entry a model file belongs to from its file name
+ */
+export function findModelByFileName(fileName: string) {
+  const matches = modelTypes.flatMap(type =>
+    getModelList(type)
+      .filter(model => model.url.split('/').pop() === fileName)
+      .map(model => ({ modelType: type, name: model.name }))
+  )
+  // several entries share a file name (migan.onnx), let the user pick
+  return matches.length === 1 ? matches[0] : undefined
+}
+
+export function setCurrentModel(modelType: modelType, name: string) {
+  if (!getModelList(modelType).some(model => model.name === name)) {
+    throw new Error(`unknown ${modelType} model: ${name}`)
+  }
+  localStorage.setItem(selectionKey(modelType), name)
+}
+
+/**
+ * Pick the session input/output names the registry declares, falling back
+ * to position when the exported graph uses different names
+ */
+export function resolveTensorNames(
+  declared: string[],
+  actual: readonly string[]
+) {
+  return actual.map((name, index) =>
+    actual.includes(declared[index]) ? declared[index] : name
+  )
+}
@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { getOnnxInputNames, getOnnxOutputNames } from './onnx'
+
+// a length delimited protobuf field, lengths here stay below 128
+function field(number: number, body: Uint8Array) {
+  return Uint8Array.of(number * 8 + 2, body.length, ...body)
+}
+
+function named(nameField: number, name: string) {
+  return field(nameField, new TextEncoder().encode(name))
+}
+
+function modelProto(graph: Uint8Array[]) {
+  const body = new Uint8Array(graph.flatMap(part => [...part]))
+  // ir_version as a varint before the graph
+  return Uint8Array.of(0x08, 7, ...field(7, body)).buffer
+}
+
+describe('onnx', () => {
+  it('reads the input and output names of the graph', () => {
+    const model = modelProto([
+      field(11, named(1, 'image')),
+      field(11, named(1, 'mask')),
+      field(12, named(1, 'result')),
+    ])
+    expect(getOnnxInputNames(model)).toEqual(['image', 'mask'])
+    expect(getOnnxOutputNames(model)).toEqual(['result'])
+  })
+
+  it('leaves out weights listed among the inputs', () => {
+    const model = modelProto([
+      field(5, named(8, 'conv.weight')),
+      field(11, named(1, 'input.1')),
+      field(11, named(1, 'conv.weight')),
+    ])
+    expect(getOnnxInputNames(model)).toEqual(['input.1'])
+  })
+
+  it('refuses a file without a graph', () => {
+    expect(() => getOnnxInputNames(Uint8Array.of(0x08, 7).buffer)).toThrow(
+      'no graph found in the ONNX file'
+    )
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Just enough protobuf decoding to look inside an ONNX ModelProto without
+ * creating a session: ModelProto.graph (7) -> GraphProto.input (11) ->
+ * ValueInfoProto.name (1)
+ */
+
+const MODEL_GRAPH = 7
+const GRAPH_INITIALIZER = 5
+const GRAPH_INPUT = 11
+const GRAPH_OUTPUT = 12
+const VALUE_INFO_NAME = 1
+const TENSOR_NAME = 8
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let result = 0
+  let shift = 0
+  let pos = offset
+  while (pos < bytes.length) {
+    const byte = bytes[pos]
+    pos += 1
+    // multiply instead of shifting, lengths may not fit in 32 bits
+    result += (byte % 0x80) * 2 ** shift
+    if (byte < 0x80) {
+      return [result, pos]
+    }
+    shift += 7
+  }
+  throw new Error('truncated varint')
+}
+
+function forEachField(
+  bytes: Uint8Array,
+  start: number,
+  end: number,
+  callback: (field: number, valueStart: number, valueEnd: number) => void
+) {
+  let pos = start
+  while (pos < end) {
+    const [tag, afterTag] = readVarint(bytes, pos)
+    const field = Math.floor(tag / 8)
+    const wireType = tag % 8
+    let valueEnd: number
+    let valueStart = afterTag
+    if (wireType === 0) {
+      valueEnd = readVarint(bytes, afterTag)[1]
+    } else if (wireType === 1) {
+      valueEnd = afterTag + 8
+    } else if (wireType === 2) {
+      const [length, afterLength] = readVarint(bytes, afterTag)
+      valueStart = afterLength
+      valueEnd = afterLength + length
+    } else if (wireType === 5) {
+      valueEnd = afterTag + 4
+    } else {
+      throw new Error(`unsupported protobuf wire type ${wireType}`)
+    }
+    if (valueEnd > end) {
+      throw new Error('truncated protobuf message')
+    }
+    if (wireType === 2) {
+      callback(field, valueStart, valueEnd)
+    }
+    pos = valueEnd
+  }
+}
+
+// names of the messages in one repeated field of ModelProto.graph
+function readGraphNames(
+  bytes: Uint8Array,
+  graphField: number,
+  nameField: number
+) {
+  const decoder = new TextDecoder()
+  const names: string[] = []
+  let graphFound = false
+  forEachField(bytes, 0, bytes.length, (field, start, end) => {
+    if (field !== MODEL_GRAPH) {
+      return
+    }
+    graphFound = true
+    forEachField(bytes, start, end, (graphChild, childStart, childEnd) => {
+      if (graphChild !== graphField) {
+        return
+      }
+      forEachField(bytes, childStart, childEnd, (childField, s, e) => {
+        if (childField === nameField) {
+          names.push(decoder.decode(bytes.subarray(s, e)))
+        }
+      })
+    })
+  })
+  if (!graphFound) {
+    throw new Error('no graph found in the ONNX file')
+  }
+  return names
+}
+
+// older exports list the weights among the inputs too, those are not fed
+export function getOnnxInputNames(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer)
+  const weights = readGraphNames(bytes, GRAPH_INITIALIZER, TENSOR_NAME)
+  return readGraphNames(bytes, GRAPH_INPUT, VALUE_INFO_NAME).filter(
+    name => !weights.includes(name)
+  )
+}
+
+export function getOnnxOutputNames(buffer: ArrayBuffer) {
+  return readGraphNames(new Uint8Array(buffer), GRAPH_OUTPUT, VALUE_INFO_NAME)
+}
@@ -0,0 +1,395 @@
+import { resolveTensorNames } from './models'
+import type {
+  inferenceStage,
+  InferenceJob,
+  ModelPayload,
+  RGBAImage,
+} from './inferenceProtocol'
+
+/**
+ * Tensor pre/post processing run inside the inference worker. Everything works
+ * on raw RGBA pixels, there is no DOM or OpenCV in a worker
+ */
+export interface PipelineContext {
+  session: ort.InferenceSession
+  model: ModelPayload
+  // the second model of a two stage job
+  companion?: { session: ort.InferenceSession; model: ModelPayload }
+  report: (stage: inferenceStage, progress: number) => void
+  // yields to the worker event loop, throws when the job was cancelled
+  checkpoint: () => Promise<void>
+}
+
+// free tensor memory right away, whether a job finished or was cancelled
+function dispose(...feeds: (Record<string, ort.Tensor> | undefined)[]) {
+  feeds.forEach(feed => Object.values(feed ?? {}).forEach(t => t.dispose()))
+}
+
+// the mask used to go through cv.COLOR_BGR2GRAY on RGBA data, keep its
+// weights so only white strokes count as holes
+function isHole(data: Uint8ClampedArray, offset: number) {
+  const gray =
+    0.114 * data[offset] + 0.587 * data[offset + 1] + 0.299 * data[offset + 2]
+  return Math.round(gray) === 255
+}
+
+export async function runInpaint(
+  { session, model, report, checkpoint }: PipelineContext,
+  image: RGBAImage,
+  mask: RGBAImage
+): Promise<RGBAImage> {
+  const { width, height } = image
+  const area = width * height
+
+  report('preprocess', 10)
+  const img = new Uint8Array(3 * area)
+  const mark = new Uint8Array(area)
+  for (let i = 0; i < area; i += 1) {
+    for (let c = 0; c < 3; c += 1) {
+      img[c * area + i] = image.data[i * 4 + c]
+    }
+    mark[i] = isHole(mask.data, i * 4) ? 0 : 255
+  }
+  const inputNames = resolveTensorNames(model.inputNames, session.inputNames)
+  const [outputName] = resolveTensorNames(
+    model.outputNames,
+    session.outputNames
+  )
+  await checkpoint()
+
+  report('run', 20)
+  const feeds = {
+    [inputNames[0]]: new ort.Tensor('uint8', img, [1, 3, height, width]),
+    [inputNames[1]]: new ort.Tensor('uint8', mark, [1, 1, height, width]),
+  }
+  let results: Record<string, ort.Tensor> | undefined
+  try {
+    results = await session.run(feeds)
+    await checkpoint()
+
+    report('postprocess', 90)
+    const out = results[outputName].data
+    const data = new Uint8ClampedArray(area * 4)
+    for (let i = 0; i < area; i += 1) {
+      for (let c = 0; c < 3; c += 1) {
+        data[i * 4 + c] = out[c * area + i]
+      }
+      data[i * 4 + 3] = 255
+    }
+    return { data, width, height }
+  } finally {
+    dispose(feeds, results)
+  }
+}
+
+// The plain MI-GAN generator takes [mask - 0.5, image * mask] in [-1, 1] and
+// returns the whole 512x512 image, compositing is left to the caller
+export async function runInpaint512(
+  { session, model, report, checkpoint }: PipelineContext,
+  image: RGBAImage,
+  mask: RGBAImage
+): Promise<RGBAImage> {
+  const { width, height } = image
+  const area = width * height
+
+  report('preprocess', 10)
+  const input = new Float32Array(4 * area)
+  for (let i = 0; i < area; i += 1) {
+    // 1 = known pixel, 0 = hole
+    const known = mask.data[i * 4 + 3] > 0 ? 0 : 1
+    input[i] = known - 0.5
+    for (let c = 0; c < 3; c += 1) {
+      input[(c + 1) * area + i] =
+        ((image.data[i * 4 + c] / 255) * 2 - 1) * known
+    }
+  }
+  const [inputName] = resolveTensorNames(model.inputNames, session.inputNames)
+  const [outputName] = resolveTensorNames(
+    model.outputNames,
+    session.outputNames
+  )
+  await checkpoint()
+
+  report('run', 20)
+  const feeds = {
+    [inputName]: new ort.Tensor('float32', input, [1, 4, height, width]),
+  }
+  let results: Record<string, ort.Tensor> | undefined
+  try {
+    results = await session.run(feeds)
+    await checkpoint()
+
+    report('postprocess', 90)
+    const out = results[outputName].data
+    const data = new Uint8ClampedArray(area * 4)
+    for (let i = 0; i < area; i += 1) {
+      for (let c = 0; c < 3; c += 1) {
+        data[i * 4 + c] = ((out[c * area + i] + 1) / 2) * 255
+      }
+      data[i * 4 + 3] = 255
+    }
+    return { data, width, height }
+  } finally {
+    dispose(feeds, results)
+  }
+}
+
+const SCALE = 4
+const TILE_SIZE = 64
+const TILE_PADDING = 6
+
+// Real-ESRGAN runs on padded 64x64 tiles so large images fit in memory, the
+// padding is cropped off each upscaled tile to hide the seams
+export async function runUpscale(
+  { session, model, report, checkpoint }: PipelineContext,
+  image: RGBAImage
+): Promise<RGBAImage> {
+  const { width, height } = image
+  const area = width * height
+  const outWidth = width * SCALE
+  const outHeight = height * SCALE
+  const outArea = outWidth * outHeight
+
+  report('preprocess', 5)
+  const input = new Float32Array(3 * area)
+  for (let i = 0; i < area; i += 1) {
+    for (let c = 0; c < 3; c += 1) {
+      input[c * area + i] = image.data[i * 4 + c] / 255
+    }
+  }
+  const [inputName] = resolveTensorNames(model.inputNames, session.inputNames)
+  const [outputName] = resolveTensorNames(
+    model.outputNames,
+    session.outputNames
+  )
+
+  const tileSizePre = TILE_SIZE - TILE_PADDING * 2
+  const tileArea = TILE_SIZE * TILE_SIZE
+  const outTileSize = TILE_SIZE * SCALE
+  const outTileArea = outTileSize * outTileSize
+  const tilesx = Math.ceil(width / tileSizePre)
+  const tilesy = Math.ceil(height / tileSizePre)
+  const numTiles = tilesx * tilesy
+  let currentTile = 0
+
+  const output = new Float32Array(3 * outArea)
+  for (let i = 0; i < tilesx; i += 1) {
+    for (let j = 0; j < tilesy; j += 1) {
+      await checkpoint()
+      const tileW = Math.min(tileSizePre, width - i * tileSizePre)
+      const tileH = Math.min(tileSizePre, height - j * tileSizePre)
+
+      // copy the padded tile, clamping at the image borders
+      const tileData = new Float32Array(tileArea * 3)
+      for (let xp = -TILE_PADDING; xp < tileSizePre + TILE_PADDING; xp += 1) {
+        for (let yp = -TILE_PADDING; yp < tileSizePre + TILE_PADDING; yp += 1) {
+          const xim = Math.min(Math.max(i * tileSizePre + xp, 0), width - 1)
+          const yim = Math.min(Math.max(j * tileSizePre + yp, 0), height - 1)
+          const idx = xim + yim * width
+          const tdx = xp + TILE_PADDING + (yp + TILE_PADDING) * TILE_SIZE
+          for (let c = 0; c < 3; c += 1) {
+            tileData[tdx + c * tileArea] = input[idx + c * area]
+          }
+        }
+      }
+
+      const feeds = {
+        [inputName]: new ort.Tensor('float32', tileData, [
+          1,
+          3,
+          TILE_SIZE,
+          TILE_SIZE,
+        ]),
+      }
+      let results: Record<string, ort.Tensor> | undefined
+      try {
+        results = await session.run(feeds)
+        const out = results[outputName].data
+        for (let x = 0; x < tileW * SCALE; x += 1) {
+          for (let y = 0; y < tileH * SCALE; y += 1) {
+            const xim = i * tileSizePre * SCALE + x
+            const yim = j * tileSizePre * SCALE + y
+            const idx = xim + yim * outWidth
+            const xt = x + TILE_PADDING * SCALE
+            const yt = y + TILE_PADDING * SCALE
+            for (let c = 0; c < 3; c += 1) {
+              output[idx + c * outArea] =
+                out[xt + yt * outTileSize + c * outTileArea]
+            }
+          }
+        }
+      } finally {
+        dispose(feeds, results)
+      }
+      currentTile += 1
+      report('run', 5 + Math.round((85 * currentTile) / numTiles))
+    }
+  }
+  await checkpoint()
+
+  report('postprocess', 90)
+  const data = new Uint8ClampedArray(outArea * 4)
+  for (let i = 0; i < outArea; i += 1) {
+    for (let c = 0; c < 3; c += 1) {
+      data[i * 4 + c] = Math.min(Math.max(output[c * outArea + i], 0), 1) * 255
+    }
+    data[i * 4 + 3] = 255
+  }
+  return { data, width: outWidth, height: outHeight }
+}
+
+const SAM_SIZE = 1024
+const SAM_MEAN = [0.485, 0.456, 0.406]
+const SAM_STD = [0.229, 0.224, 0.225]
+
+// embeddings of the last encoded image, each click only runs the decoder
+let encoded: { key: string; embeddings: Record<string, ort.Tensor> } | null =
+  null
+
+async function encodeImage(
+  { session, model, report }: PipelineContext,
+  image: RGBAImage
+) {
+  const { width, height } = image
+  const area = SAM_SIZE * SAM_SIZE
+
+  report('preprocess', 5)
+  // zero padded at the bottom and right
+  const input = new Float32Array(3 * area)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      for (let c = 0; c < 3; c += 1) {
+        input[c * area + y * SAM_SIZE + x] =
+          (image.data[(y * width + x) * 4 + c] / 255 - SAM_MEAN[c]) / SAM_STD[c]
+      }
+    }
+  }
+  const [inputName] = resolveTensorNames(model.inputNames, session.inputNames)
+
+  report('run', 10)
+  const feeds = {
+    [inputName]: new ort.Tensor('float32', input, [1, 3, SAM_SIZE, SAM_SIZE]),
+  }
+  try {
+    return await session.run(feeds)
+  } finally {
+    dispose(feeds)
+  }
+}
+
+// bilinear sample of a low resolution logit map
+function sampleLogits(
+  logits: Float32Array,
+  offset: number,
+  size: number,
+  x: number,
+  y: number
+) {
+  const x0 = Math.min(Math.max(Math.floor(x), 0), size - 1)
+  const y0 = Math.min(Math.max(Math.floor(y), 0), size - 1)
+  const x1 = Math.min(x0 + 1, size - 1)
+  const y1 = Math.min(y0 + 1, size - 1)
+  const fx = Math.min(Math.max(x - x0, 0), 1)
+  const fy = Math.min(Math.max(y - y0, 0), 1)
+  const at = (px: number, py: number) => logits[offset + py * size + px]
+  return (
+    (at(x0, y0) * (1 - fx) + at(x1, y0) * fx) * (1 - fy) +
+    (at(x0, y1) * (1 - fx) + at(x1, y1) * fx) * fy
+  )
+}
+
+// SAM: the image is encoded once per imageKey, the decoder turns the clicks
+// into a few candidate masks and the one with the best predicted IoU is kept
+export async function runSegment(
+  context: PipelineContext,
+  job: Extract<InferenceJob, { kind: 'segment' }>
+): Promise<RGBAImage> {
+  const { session, model, companion, report, checkpoint } = context
+  if (!companion) {
+    throw new Error('segmentation needs a decoder model')
+  }
+  const { image, points } = job
+  const { width, height } = image
+
+  if (encoded?.key !== job.imageKey) {
+    // dropped first so a failed encode is never reused
+    dispose(encoded?.embeddings)
+    encoded = null
+    encoded = {
+      key: job.imageKey,
+      embeddings: await encodeImage(context, image),
+    }
+  }
+  await checkpoint()
+
+  report('run', 80)
+  const [embeddingName, positionalName] = resolveTensorNames(
+    model.outputNames,
+    session.outputNames
+  )
+  const [pointsName, labelsName, imageName, positionName] = resolveTensorNames(
+    companion.model.inputNames,
+    companion.session.inputNames
+  )
+  const [scoresName, masksName] = resolveTensorNames(
+    companion.model.outputNames,
+    companion.session.outputNames
+  )
+  const prompts = {
+    [pointsName]: new ort.Tensor(
+      'float32',
+      Float32Array.from(points.flatMap(({ x, y }) => [x, y])),
+      [1, 1, points.length, 2]
+    ),
+    [labelsName]: new ort.Tensor(
+      'int64',
+      BigInt64Array.from(
+        points.map(({ negative }) => BigInt(negative ? 0 : 1))
+      ),
+      [1, 1, points.length]
+    ),
+  }
+  let results: Record<string, ort.Tensor> | undefined
+  try {
+    results = await companion.session.run({
+      ...prompts,
+      [imageName]: encoded.embeddings[embeddingName],
+      [positionName]: encoded.embeddings[positionalName],
+    })
+    await checkpoint()
+
+    report('postprocess', 90)
+    const scores = results[scoresName].data as Float32Array
+    const masks = results[masksName]
+    const size = masks.dims[masks.dims.length - 1]
+    let best = 0
+    for (let i = 1; i < scores.length; i += 1) {
+      if (scores[i] > scores[best]) {
+        best = i
+      }
+    }
+    // the low resolution masks cover the padded encoder input
+    const step = SAM_SIZE / size
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const logit = sampleLogits(
+          masks.data as Float32Array,
+          best * size * size,
+          size,
+          (x + 0.5) / step - 0.5,
+          (y + 0.5) / step - 0.5
+        )
+        const i = (y * width + x) * 4
+        data[i] = 255
+        data[i + 1] = 255
+        data[i + 2] = 255
+        data[i + 3] = logit > 0 ? 255 : 0
+      }
+    }
+    return { data, width, height }
+  } finally {
+    // the embeddings are kept for the next click
+    dispose(prompts, results)
+  }
+}
@@ -1,6 +1,5 @@
 // @ts-nocheck
-import { getCapabilities } from './util'
-import { ensureModel } from './cache'
+import { getSession } from './session'
 
 /**
  * Memory monitoring utility
@@ -47,174 +46,37 @@ export class RAFTMaskTracker {
         throw new Error('ONNX Runtime not loaded. Please ensure the script is loaded first.')
       }
 
-      // Set wasm paths to CDN
-      ort.env.wasm.wasmPaths =
-        'https://cdn.jsdelivr.net/npm/onnxruntime-web@1.20.0/dist/'
-
-      // Configure WASM settings for RAFT model (large 48MB model needs optimal memory)
-      if (typeof navigator !== 'undefined') {
-        // Enable multi-threading if SharedArrayBuffer is available (better memory handling)
-        if (typeof SharedArrayBuffer !== 'undefined') {
-          ort.env.wasm.numThreads = Math.min(navigator.hardwareConcurrency || 4, 4)
-          console.log(`[RAFTMaskTracker] Enabling ${ort.env.wasm.numThreads} WASM threads for better memory management`)
-        } else {
-          ort.env.wasm.numThreads = 1
-          console.log('[RAFTMaskTracker] Single-threaded mode (SharedArrayBuffer not available)')
-        }
-        
-        if (
-          typeof WebAssembly !== 'undefined' &&
-          typeof WebAssembly.validate === 'function'
-        ) {
-          ort.env.wasm.simd = true
-        }
-        ort.env.wasm.proxy = true // Enable proxy for better stability with large models
-        // @ts-ignore - these properties exist in ort.env.wasm
-        ort.env.wasm.initTimeout = 60000 // 60 seconds for large model
-      }
-
-      // Configure WebGPU settings
-      if (typeof ort.env.webgpu !== 'undefined') {
-        console.log('[RAFTMaskTracker] Configuring WebGPU environment')
-        ort.env.webgpu.powerPreference = 'high-performance'
-        ort.env.webgpu.forceFallbackAdapter = false
-      }
-
-      console.log('[RAFTMaskTracker] WASM config:', ort.env.wasm)
-
-      const capabilities = await getCapabilities()
-      console.log('[RAFTMaskTracker] Capabilities:', capabilities)
-      console.log(
-        '[RAFTMaskTracker] WebGPU available:',
-        capabilities.webgpu
-      )
-      console.log('[RAFTMaskTracker] WASM available:', capabilities.wasm)
-      console.log('[RAFTMaskTracker] SIMD available:', capabilities.simd)
-      console.log('[RAFTMaskTracker] Threads available:', capabilities.threads)
-
-      const modelBuffer = await ensureModel('raft')
-      console.log(
-        '[RAFTMaskTracker] Model loaded, size:',
-        `${(modelBuffer.byteLength / 1024 / 1024).toFixed(2)} MB`
-      )
-      logMemoryUsage('After model buffer loaded')
-
-      // Clone the buffer to prevent detachment issues
-      const cloneBuffer = (buffer: ArrayBuffer) => {
-        const copy = new ArrayBuffer(buffer.byteLength)
-        new Uint8Array(copy).set(new Uint8Array(buffer))
-        return copy
-      }
-
-      // Try different execution providers with fallback
-      let session = null
-      let selectedProvider = null
-      const providersToTry = []
-
       // WebGPU doesn't support DequantizeLinear operator used in quantized RAFT model
       // Force WASM for full operator compatibility
       console.log(
         '[RAFTMaskTracker] ⚠️  Using WASM only - RAFT model uses quantized weights (DequantizeLinear) not supported by WebGPU'
       )
-      providersToTry.push({ name: 'wasm', providers: ['wasm'] })
-
-      console.log(
-        '[RAFTMaskTracker] Provider priority order:',
-        providersToTry.map((p) => p.name)
-      )
-
-      for (const { name, providers } of providersToTry) {
-        try {
-          console.log(
-            `[RAFTMaskTracker] 🔧 Attempting to create session with ${name}...`
-          )
-          // Clone buffer for each attempt to prevent detachment
-          const bufferCopy = cloneBuffer(modelBuffer)
-
-          // Session options - keep simple for maximum compatibility
-          let sessionOptions: any = {
-            executionProviders: providers,
-          }
-
-          // Add backend-specific optimizations
-          if (name === 'webgpu') {
-            console.log('[RAFTMaskTracker] Configuring WebGPU session...')
-            // Keep WebGPU options minimal - complex options can cause failures
-            sessionOptions = {
-              executionProviders: ['webgpu'],
-            }
-          } else if (name === 'wasm') {
-            console.log('[RAFTMaskTracker] Configuring WASM session for large model...')
-            // Optimized for large models (48MB RAFT)
-            sessionOptions = {
-              executionProviders: ['wasm'],
-              graphOptimizationLevel: 'extended', // Better optimization for large models
-              executionMode: 'sequential', // Sequential execution saves memory
-              enableCpuMemArena: false, // Don't pre-allocate large memory arenas
-              enableMemPattern: false, // Disable memory pattern for large models
-            }
-            console.log('[RAFTMaskTracker] Using memory-optimized WASM configuration')
-          }
-
-          console.log('[RAFTMaskTracker] Session options:', JSON.stringify(sessionOptions))
-
-          console.log(`[RAFTMaskTracker] 🔨 Creating ONNX session with ${name}...`)
-          logMemoryUsage(`Before session creation (${name})`)
-          
-          const sessionStart = performance.now()
-          session = await ort.InferenceSession.create(
-            bufferCopy,
-            sessionOptions
-          )
-          const sessionTime = ((performance.now() - sessionStart) / 1000).toFixed(2)
-          
-          logMemoryUsage(`After session creation (${name})`)
-          console.log(`[RAFTMaskTracker] Session created in ${sessionTime}s`)
-          console.log('[RAFTMaskTracker] Session inputs:', session.inputNames)
-          console.log('[RAFTMaskTracker] Session outputs:', session.outputNames)
-          
-          selectedProvider = name
-          console.log(
-            `[RAFTMaskTracker] ✅ Successfully created session with ${name.toUpperCase()}`
-          )
-          break
-        } catch (err) {
-          const errorMsg = err?.message || String(err)
-          console.error(
-            `[RAFTMaskTracker] ❌ Failed to create session with ${name}:`
-          )
-          console.error('Error details:', err)
-          console.error('Error type:', typeof err)
-          console.error('Error string:', String(err))
-
-          // Log WebGPU-specific failures with details
-          if (name === 'webgpu') {
-            console.error(
-              '⚠️  [RAFTMaskTracker] WebGPU initialization failed!'
-            )
-            console.error('WebGPU Error:', errorMsg)
-            console.error(
-              'Falling back to WASM (may be slower and use more memory)...'
-            )
-          }
-
-          if (providersToTry[providersToTry.length - 1].name === name) {
-            throw new Error(
-              `Failed to initialize RAFT model with any execution provider. Last error: ${errorMsg}`
-            )
-          }
-        }
-      }
-
-      if (!session) {
-        throw new Error('Failed to create RAFT inference session')
-      }
+      logMemoryUsage('Before session creation (wasm)')
+      const sessionStart = performance.now()
+      const { session, provider } = await getSession('raft', {
+        providers: ['wasm'],
+        // multi-threaded in ort's proxy worker, with time to load the 48MB model
+        maxThreads: 4,
+        initTimeout: 60000,
+        options: {
+          // Optimized for large models (48MB RAFT)
+          wasm: {
+            graphOptimizationLevel: 'extended', // Better optimization for large models
+            executionMode: 'sequential', // Sequential execution saves memory
+            enableCpuMemArena: false, // Don't pre-allocate large memory arenas
+            enableMemPattern: false, // Disable memory pattern for large models
+          },
+        },
+      })
+      const sessionTime = ((performance.now() - sessionStart) / 1000).toFixed(2)
+      logMemoryUsage(`After session creation (${provider})`)
+      console.log(`[RAFTMaskTracker] Session created in ${sessionTime}s`)
 
       this.raftSession = session
 
       console.log('═══════════════════════════════════════════════')
       console.log('🎉 [RAFTMaskTracker] RAFT model loaded successfully')
-      console.log(`🚀 [RAFTMaskTracker] Using execution provider: ${selectedProvider.toUpperCase()}`)
+      console.log(`🚀 [RAFTMaskTracker] Using execution provider: ${provider.toUpperCase()}`)
       console.log('═══════════════════════════════════════════════')
       console.log('[RAFTMaskTracker] Input names:', this.raftSession.inputNames)
       console.log(
@@ -645,6 +507,8 @@ export class RAFTMaskTracker {
 
   cleanup() {
     console.log('[RAFTMaskTracker] Cleaning up resources')
+    // the session itself is owned by the session manager
+    this.raftSession = null
     this.previousFrame = null
     this.currentMask = null
   }
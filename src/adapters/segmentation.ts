@@ -0,0 +1,55 @@
+import { createCanvas, getPixels, toCanvas } from './canvas'
+import { getModel } from './models'
+import { runInference } from './inferenceClient'
+import type { InferenceOptions } from './inferenceClient'
+import type { SegmentPoint } from './inferenceProtocol'
+
+// the worker keeps the embeddings of the last image it encoded under its key
+const imageKeys = new WeakMap<HTMLImageElement, string>()
+let nextImageKey = 1
+
+function getImageKey(image: HTMLImageElement) {
+  let key = imageKeys.get(image)
+  if (!key) {
+    key = `image-${nextImageKey}`
+    nextImageKey += 1
+    imageKeys.set(image, key)
+  }
+  return key
+}
+
+/**
+ * Select the object under the clicked points, given in image pixels. The
+ * first click on an image encodes it, the next ones only run the decoder.
+ * Returns a white mask the size of the image, alpha = selected
+ */
+export default async function segment(
+  image: HTMLImageElement,
+  points: SegmentPoint[],
+  options: InferenceOptions = {}
+) {
+  const { resolution } = getModel('segment')
+  const { width, height } = image
+  const scale = resolution / Math.max(width, height)
+  const w = Math.round(width * scale)
+  const h = Math.round(height * scale)
+
+  const output = await runInference(
+    'segment',
+    {
+      kind: 'segment',
+      imageKey: getImageKey(image),
+      image: getPixels(image, w, h),
+      points: points.map(({ x, y, negative }) => ({
+        x: x * scale,
+        y: y * scale,
+        negative,
+      })),
+    },
+    options
+  )
+
+  const { canvas, ctx } = createCanvas(width, height)
+  ctx.drawImage(toCanvas(output), 0, 0, width, height)
+  return canvas
+}
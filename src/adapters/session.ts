@@ -0,0 +1,250 @@
+import { ensureModel } from './cache'
+import { getSourceConfig } from './config'
+import { getModel } from './models'
+import type { modelType } from './models'
+import { getCapabilities } from './util'
+
+export type executionProvider = 'webgpu' | 'wasm'
+
+export interface ManagedSession {
+  modelType: modelType
+  // name and version of the model
+  model: string
+  session: ort.InferenceSession
+  // provider the session was actually created with
+  provider: executionProvider
+}
+
+export interface SessionRequest {
+  // providers to try in order, defaults to webgpu then wasm
+  providers?: executionProvider[]
+  // extra options for a given provider
+  options?: Partial<
+    Record<executionProvider, ort.InferenceSession.SessionOptions>
+  >
+  // cap on the wasm threads, all cores by default
+  maxThreads?: number
+  // milliseconds to wait for the wasm runtime, large models need longer
+  initTimeout?: number
+}
+
+// where the model of a session comes from
+export interface SessionSource {
+  modelType: modelType
+  // name and version, a session is reused while they stay the same
+  model: string
+  // the model file, only read when a session has to be created
+  load: () => Promise<ArrayBuffer>
+}
+
+// where ort loads its wasm files from, and whether it may start its own
+// proxy worker for them
+export interface RuntimeOptions {
+  runtimeBaseUrl: string
+  proxy: boolean
+}
+
+export type Capabilities = Awaited<ReturnType<typeof getCapabilities>>
+
+// sessions by model, version and providers; pending creations are shared
+const sessions = new Map<string, Promise<ManagedSession>>()
+// holders of sessions in other threads, like the inference worker, told to
+// release theirs along with these
+const releaseHandlers = new Set<(modelType?: modelType) => void>()
+
+/**
+ * Set up the runtime for the providers a session is created with. Wasm runs
+ * in ort's own proxy worker unless the caller already is a worker
+ */
+function configEnv(
+  capabilities: Capabilities,
+  runtimeBaseUrl: string,
+  providers: executionProvider[],
+  { maxThreads, initTimeout }: SessionRequest = {},
+  proxy = true
+) {
+  ort.env.wasm.wasmPaths = runtimeBaseUrl
+  if (providers.includes('webgpu')) {
+    ort.env.webgpu.powerPreference = 'high-performance'
+  }
+  if (providers[0] === 'webgpu') {
+    // wasm only runs the few operators webgpu lacks
+    ort.env.wasm.numThreads = 1
+  } else {
+    if (capabilities.threads) {
+      ort.env.wasm.numThreads = Math.min(
+        navigator.hardwareConcurrency ?? 4,
+        maxThreads ?? Infinity
+      )
+    }
+    if (capabilities.simd) {
+      ort.env.wasm.simd = true
+    }
+    ort.env.wasm.proxy = proxy
+  }
+  if (initTimeout) {
+    ort.env.wasm.initTimeout = initTimeout
+  }
+  console.log('env', ort.env.wasm)
+}
+
+function defaultProviders(capabilities: Capabilities): executionProvider[] {
+  return capabilities.webgpu ? ['webgpu', 'wasm'] : ['wasm']
+}
+
+// proxied wasm sessions transfer the buffer to a worker, so every attempt
+// gets its own copy
+function cloneBuffer(buffer: ArrayBuffer) {
+  return buffer.slice(0)
+}
+
+/**
+ * Create a session from a model buffer with the first provider that works
+ */
+async function createSessionWithFallback(
+  label: string,
+  modelBuffer: ArrayBuffer,
+  providers: executionProvider[],
+  options: SessionRequest['options'] = {}
+) {
+  let lastError: unknown = null
+  for (const provider of providers) {
+    try {
+      console.log(`[${label}] Trying execution provider: ${provider}`)
+      const session = await ort.InferenceSession.create(
+        cloneBuffer(modelBuffer),
+        {
+          ...options[provider],
+          executionProviders: [provider],
+        }
+      )
+      console.log(`[${label}] Successfully created session with ${provider}`)
+      return { session, provider }
+    } catch (err) {
+      console.warn(`[${label}] Failed with ${provider}:`, err)
+      lastError = err
+    }
+  }
+  throw new Error(
+    `Failed to create ${label} session. Last error: ${
+      (lastError as Error)?.message
+    }`
+  )
+}
+
+async function createSession(
+  source: SessionSource,
+  providers: executionProvider[],
+  request: SessionRequest,
+  capabilities: Capabilities,
+  { runtimeBaseUrl, proxy }: RuntimeOptions
+): Promise<ManagedSession> {
+  configEnv(capabilities, runtimeBaseUrl, providers, request, proxy)
+  const { session, provider } = await createSessionWithFallback(
+    source.modelType,
+    await source.load(),
+    providers,
+    request.options
+  )
+  return { modelType: source.modelType, model: source.model, session, provider }
+}
+
+/**
+ * Get the inference session for a model, creating it on first use. Sessions
+ * of the same modelType made for another model are released. The inference
+ * worker opens its sessions here too, with the buffer the page sent it
+ */
+export async function openSession(
+  source: SessionSource,
+  request: SessionRequest = {},
+  runtime: RuntimeOptions = {
+    runtimeBaseUrl: getSourceConfig().runtimeBaseUrl,
+    proxy: true,
+  }
+) {
+  const { modelType } = source
+  const capabilities = await getCapabilities()
+  const providers = request.providers ?? defaultProviders(capabilities)
+  const key = `${modelType}:${source.model}:${providers.join()}`
+
+  const stale = Array.from(sessions.keys()).filter(
+    k => k.startsWith(`${modelType}:`) && k !== key
+  )
+  await Promise.all(stale.map(releaseSession))
+
+  let pending = sessions.get(key)
+  if (!pending) {
+    pending = createSession(source, providers, request, capabilities, runtime)
+    sessions.set(key, pending)
+    // let a failed creation be retried
+    pending.catch(() => sessions.delete(key))
+  }
+  return pending
+}
+
+/**
+ * Get the inference session for the selected model of a modelType on this
+ * thread, loading the model from the cache
+ */
+export async function getSession(
+  modelType: modelType,
+  request: SessionRequest = {}
+) {
+  const model = getModel(modelType)
+  return openSession(
+    {
+      modelType,
+      model: `${model.name}@${model.version}`,
+      load: () => ensureModel(modelType),
+    },
+    request
+  )
+}
+
+/**
+ * Provider of the live session for a modelType, if there is one
+ */
+export async function getActiveProvider(modelType: modelType) {
+  const key = Array.from(sessions.keys()).find(k =>
+    k.startsWith(`${modelType}:`)
+  )
+  if (!key) {
+    return undefined
+  }
+  try {
+    return (await sessions.get(key))?.provider
+  } catch (e) {
+    return undefined
+  }
+}
+
+async function releaseSession(key: string) {
+  const pending = sessions.get(key)
+  sessions.delete(key)
+  try {
+    const managed = await pending
+    await managed?.session.release()
+    console.log(`released session ${key}`)
+  } catch (e) {
+    console.warn(`failed to release session ${key}`, e)
+  }
+}
+
+/**
+ * Call `handler` whenever sessions are released, to free the ones held in
+ * another thread
+ */
+export function onReleaseSessions(handler: (modelType?: modelType) => void) {
+  releaseHandlers.add(handler)
+}
+
+/**
+ * Free the GPU/WASM memory held by sessions, of one modelType or all of them
+ */
+export async function releaseSessions(modelType?: modelType) {
+  releaseHandlers.forEach(handler => handler(modelType))
+  const keys = Array.from(sessions.keys()).filter(
+    k => !modelType || k.startsWith(`${modelType}:`)
+  )
+  await Promise.all(keys.map(releaseSession))
+}
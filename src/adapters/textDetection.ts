@@ -0,0 +1,112 @@
+import cv, { Mat } from 'opencv-ts'
+
+export interface TextRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+function morph(
+  src: Mat,
+  dst: Mat,
+  operation: 'MORPH_GRADIENT' | 'MORPH_CLOSE',
+  kernel: Mat
+) {
+  cv.morphologyEx(
+    src,
+    dst,
+    cv[operation],
+    kernel,
+    new cv.Point(-1, -1),
+    1,
+    cv.BORDER_CONSTANT,
+    cv.morphologyDefaultBorderValue()
+  )
+}
+
+/**
+ * Find regions that look like captions or watermarks: text has strong edges
+ * packed along a line, so the morphological gradient is thresholded, joined
+ * horizontally into words and lines, and the resulting contours are kept when
+ * their boxes are dense, wider than tall and not too large
+ */
+export function detectTextRegions(
+  image: HTMLImageElement | HTMLCanvasElement
+): TextRegion[] {
+  const src = cv.imread(image)
+  const gray = new cv.Mat()
+  const gradient = new cv.Mat()
+  const binary = new cv.Mat()
+  const joined = new cv.Mat()
+  const contours = new cv.MatVector()
+  const hierarchy = new cv.Mat()
+  const edgeKernel = cv.getStructuringElement(
+    cv.MORPH_ELLIPSE,
+    new cv.Size(3, 3),
+    new cv.Point(-1, -1)
+  )
+  // wide enough to bridge the gaps between letters and words
+  const gap = Math.max(9, Math.round(src.cols / 100))
+  const lineKernel = cv.getStructuringElement(
+    cv.MORPH_RECT,
+    new cv.Size(gap, 1),
+    new cv.Point(-1, -1)
+  )
+
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY)
+    morph(gray, gradient, 'MORPH_GRADIENT', edgeKernel)
+    cv.threshold(gradient, binary, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU)
+    morph(binary, joined, 'MORPH_CLOSE', lineKernel)
+    cv.findContours(
+      joined,
+      contours,
+      hierarchy,
+      cv.RETR_EXTERNAL,
+      cv.CHAIN_APPROX_SIMPLE
+    )
+
+    const maxArea = (src.cols * src.rows) / 4
+    const padding = Math.max(2, Math.round(gap / 3))
+    const regions: TextRegion[] = []
+    for (let i = 0; i < contours.size(); i += 1) {
+      const contour = contours.get(i)
+      const rect = cv.boundingRect(contour)
+      contour.delete()
+      const area = rect.width * rect.height
+      if (
+        rect.height >= 8 &&
+        rect.height <= src.rows / 4 &&
+        rect.width >= rect.height &&
+        area <= maxArea
+      ) {
+        // text boxes are mostly filled once letters are joined, texture is not
+        const roi = joined.roi(rect)
+        const density = cv.countNonZero(roi) / area
+        roi.delete()
+        if (density >= 0.45) {
+          const x = Math.max(0, rect.x - padding)
+          const y = Math.max(0, rect.y - padding)
+          regions.push({
+            x,
+            y,
+            width: Math.min(src.cols, rect.x + rect.width + padding) - x,
+            height: Math.min(src.rows, rect.y + rect.height + padding) - y,
+          })
+        }
+      }
+    }
+    return regions
+  } finally {
+    src.delete()
+    gray.delete()
+    gradient.delete()
+    binary.delete()
+    joined.delete()
+    contours.delete()
+    hierarchy.delete()
+    edgeKernel.delete()
+    lineKernel.delete()
+  }
+}
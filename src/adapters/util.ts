@@ -1,3 +1,5 @@
+import { getSourceConfig } from './config'
+
 export async function checkWebgpu() {
   // @ts-ignore
   if (!navigator.gpu) {
@@ -47,9 +49,8 @@ export const getCapabilities = async () => {
     threads: await threads(),
   }
 }
-const version = '1.20.0'
 export const getTagSrc = async () => {
-  const prefix = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${version}/dist/`
+  const prefix = getSourceConfig().runtimeBaseUrl
   const capablilities = await getCapabilities()
   if (capablilities.webgpu) {
     return `${prefix}ort.webgpu.min.js`
@@ -0,0 +1,31 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { crc32, createArchive, readArchive } from './archive'
+
+describe('archive', () => {
+  it('reads back the entries it writes', async () => {
+    const entries = new Map([
+      ['manifest.json', new TextEncoder().encode('{"version":1}')],
+      ['renders/1.png', Uint8Array.of(137, 80, 78, 71, 0, 255)],
+      ['masques/écran.png', new Uint8Array(0)],
+    ])
+    const zip = createArchive(entries)
+    expect(zip.type).toBe('application/zip')
+
+    const read = readArchive(await zip.arrayBuffer())
+    expect([...read.keys()]).toEqual([...entries.keys()])
+    entries.forEach((data, name) => {
+      expect(read.get(name)).toEqual(data)
+    })
+  })
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+  })
+
+  it('refuses data that is not a zip', () => {
+    expect(() => readArchive(new Uint8Array(64).buffer)).toThrow(
+      'not a zip archive'
+    )
+  })
+})
@@ -0,0 +1,149 @@
+/* eslint-disable no-bitwise */
+
+/**
+ * Minimal ZIP reading and writing for project bundles. Entries are stored
+ * without compression, the images in a bundle are compressed already
+ */
+
+export type ArchiveEntries = Map<string, Uint8Array>
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+// bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800
+
+let crcTable: Uint32Array | undefined
+
+export function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n += 1) {
+      let c = n
+      for (let k = 0; k < 8; k += 1) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i += 1) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date fields
+function dosDateTime(date: Date) {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  }
+}
+
+export function createArchive(entries: ArchiveEntries) {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(new Date())
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach((data, name) => {
+    const fileName = encoder.encode(name)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, 0, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, fileName.length, true)
+    local.setUint16(28, 0, true)
+    parts.push(new Uint8Array(local.buffer), fileName, data)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, CENTRAL_HEADER, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, UTF8_FLAG, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, data.length, true)
+    header.setUint32(24, data.length, true)
+    header.setUint16(28, fileName.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), fileName)
+
+    offset += 30 + fileName.length + data.length
+  })
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.size, true)
+  end.setUint16(10, entries.size, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], {
+    type: 'application/zip',
+  })
+}
+
+export function readArchive(buffer: ArrayBuffer): ArchiveEntries {
+  const view = new DataView(buffer)
+  const decoder = new TextDecoder()
+
+  // the end record sits before an optional comment of up to 64KB
+  let end = buffer.byteLength - 22
+  const stop = Math.max(0, end - 0xffff)
+  while (
+    end >= stop &&
+    view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY
+  ) {
+    end -= 1
+  }
+  if (end < stop) {
+    throw new Error('not a zip archive')
+  }
+
+  const entries: ArchiveEntries = new Map()
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  for (let i = 0; i < count; i += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error('corrupted zip archive')
+    }
+    const method = view.getUint16(offset + 10, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    if (method !== 0) {
+      throw new Error(`${name} is compressed, only stored entries are read`)
+    }
+    const dataOffset =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    entries.set(name, new Uint8Array(buffer, dataOffset, size))
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
@@ -0,0 +1,238 @@
+import { createArchive, readArchive } from './archive'
+import type { ArchiveEntries } from './archive'
+import type { MaskRefinement } from './adapters/mask'
+import {
+  blobToImage,
+  getRenderInfo,
+  newProjectId,
+  restoreLines,
+  setRenderInfo,
+  storeLines,
+} from './projects'
+import type {
+  LoadedProject,
+  ProjectSettings,
+  ProjectState,
+  RenderInfo,
+  StoredLine,
+} from './projects'
+import { dataURItoBlob } from './utils'
+
+/**
+ * A project packed into one zip to hand it to someone else: the original,
+ * every render of the history strip, the mask each step was made with and a
+ * manifest of the operations. Strokes are kept in fractions of the canvas
+ * width, like saved projects
+ */
+const BUNDLE_FORMAT = 'inpaint-web-project'
+const BUNDLE_VERSION = 1
+const MANIFEST = 'manifest.json'
+
+// raster selections are referenced by their path in the archive
+type BundleLine = Omit<StoredLine, 'mask'> & { mask?: string }
+
+interface BundleStep {
+  // data-id of the render
+  id: string
+  render: string
+  operation?: RenderInfo['operation']
+  model?: string
+  refinement?: MaskRefinement
+  mask?: string
+  // the stroke kept in the history for this step
+  stroke: BundleLine
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  // fullSize is the upload when it was scaled down for editing
+  source: { file: string; name: string; type: string; fullSize?: string }
+  settings: ProjectSettings
+  steps: BundleStep[]
+  pendingStrokes: BundleLine[]
+}
+
+const extensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+}
+
+function extensionOf(type: string) {
+  return extensions[type] ?? 'bin'
+}
+
+function typeOf(path: string) {
+  return (
+    Object.keys(extensions).find(type =>
+      path.endsWith(`.${extensions[type]}`)
+    ) ?? ''
+  )
+}
+
+async function toBytes(blob: Blob) {
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+function getEntry(entries: ArchiveEntries, path: string, type = '') {
+  const data = entries.get(path)
+  if (!data) {
+    throw new Error(`${path} is missing from the bundle`)
+  }
+  return new Blob([data], { type })
+}
+
+async function packLines(
+  entries: ArchiveEntries,
+  lines: StoredLine[],
+  prefix: string
+) {
+  return Promise.all(
+    lines.map(async ({ mask, ...line }, i): Promise<BundleLine> => {
+      if (!mask) {
+        return line
+      }
+      const path = `selections/${prefix}-${i}.png`
+      entries.set(path, await toBytes(mask))
+      return { ...line, mask: path }
+    })
+  )
+}
+
+function unpackLines(entries: ArchiveEntries, lines: BundleLine[]) {
+  return restoreLines(
+    lines.map(({ mask, ...line }) =>
+      mask ? { ...line, mask: getEntry(entries, mask, 'image/png') } : line
+    )
+  )
+}
+
+export async function exportBundle({
+  source,
+  fullSize,
+  renders,
+  lines,
+  pendingLines,
+  settings,
+  canvasWidth,
+}: ProjectState) {
+  const entries: ArchiveEntries = new Map()
+  const scale = 1 / canvasWidth
+
+  const sourceFile = `original.${extensionOf(source.type)}`
+  entries.set(sourceFile, await toBytes(source))
+  let fullSizeFile: string | undefined
+  if (fullSize) {
+    fullSizeFile = `full-size.${extensionOf(fullSize.type)}`
+    entries.set(fullSizeFile, await toBytes(fullSize))
+  }
+
+  const strokes = await packLines(
+    entries,
+    await storeLines(lines.slice(0, renders.length), scale),
+    'step'
+  )
+  const steps = await Promise.all(
+    renders.map(async (render, i): Promise<BundleStep> => {
+      const image = dataURItoBlob(render.src)
+      const path = `renders/${i + 1}.${extensionOf(image.type)}`
+      entries.set(path, await toBytes(image))
+      const info = getRenderInfo(render)
+      const step: BundleStep = {
+        id: render.dataset.id ?? `${i + 1}`,
+        render: path,
+        operation: info?.operation,
+        model: info?.model,
+        refinement: info?.refinement,
+        stroke: strokes[i] ?? { pts: [] },
+      }
+      if (info?.mask) {
+        step.mask = `masks/${i + 1}.png`
+        entries.set(step.mask, await toBytes(info.mask))
+      }
+      return step
+    })
+  )
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    source: {
+      file: sourceFile,
+      name: source.name,
+      type: source.type,
+      fullSize: fullSizeFile,
+    },
+    settings,
+    steps,
+    pendingStrokes: await packLines(
+      entries,
+      await storeLines(pendingLines, scale),
+      'pending'
+    ),
+  }
+  entries.set(
+    MANIFEST,
+    new TextEncoder().encode(JSON.stringify(manifest, null, 2))
+  )
+  return createArchive(entries)
+}
+
+// a new project with the history of the bundle
+export async function importBundle(file: Blob): Promise<LoadedProject> {
+  const entries = readArchive(await file.arrayBuffer())
+  const manifest: BundleManifest = JSON.parse(
+    await getEntry(entries, MANIFEST).text()
+  )
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('not a project bundle')
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error('the bundle was made by a newer version')
+  }
+
+  const { source } = manifest
+  const renders = await Promise.all(
+    manifest.steps.map(async ({ id, render, mask, ...step }) => {
+      const image = await blobToImage(getEntry(entries, render, typeOf(render)))
+      image.dataset.id = id
+      if (step.operation && step.model) {
+        setRenderInfo(image, {
+          operation: step.operation,
+          model: step.model,
+          refinement: step.refinement,
+          mask: mask ? getEntry(entries, mask, 'image/png') : undefined,
+        })
+      }
+      return image
+    })
+  )
+
+  return {
+    id: newProjectId(),
+    source: new File(
+      [getEntry(entries, source.file, source.type)],
+      source.name,
+      { type: source.type }
+    ),
+    fullSize: source.fullSize
+      ? new File(
+          [getEntry(entries, source.fullSize, typeOf(source.fullSize))],
+          source.name,
+          { type: typeOf(source.fullSize) }
+        )
+      : undefined,
+    renders,
+    lines: [
+      ...(await unpackLines(
+        entries,
+        manifest.steps.map(step => step.stroke)
+      )),
+      { pts: [], src: '' },
+    ],
+    pendingLines: await unpackLines(entries, manifest.pendingStrokes),
+    settings: manifest.settings,
+  }
+}
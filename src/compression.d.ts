@@ -0,0 +1,19 @@
+// Compression Streams are in every browser the app runs in, but not yet in the
+// DOM typings of TypeScript 4
+type CompressionFormat = 'deflate' | 'deflate-raw' | 'gzip'
+
+declare class CompressionStream implements GenericTransformStream {
+  constructor(format: CompressionFormat)
+
+  readonly readable: ReadableStream<Uint8Array>
+
+  readonly writable: WritableStream<BufferSource>
+}
+
+declare class DecompressionStream implements GenericTransformStream {
+  constructor(format: CompressionFormat)
+
+  readonly readable: ReadableStream<Uint8Array>
+
+  readonly writable: WritableStream<BufferSource>
+}
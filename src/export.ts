@@ -0,0 +1,149 @@
+import { patchMask } from './adapters/inpainting'
+import { readMetadata, writeMetadata } from './metadata'
+import { getRenderInfo } from './projects'
+import type { RenderInfo } from './projects'
+import { baseName } from './utils'
+
+export const exportFormats = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/avif',
+] as const
+
+export type ExportFormat = (typeof exportFormats)[number]
+
+export interface ExportOptions {
+  format: ExportFormat
+  // from 0 to 1, PNG is lossless
+  quality: number
+  // copy the EXIF block and sRGB profile of the source
+  keepMetadata: boolean
+}
+
+export const defaultExportOptions: ExportOptions = {
+  format: 'image/png',
+  quality: 0.92,
+  keepMetadata: true,
+}
+
+export const formatExtensions: Record<ExportFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+}
+
+// canvas encoders fall back to PNG for the types they do not support
+export function isFormatSupported(format: ExportFormat) {
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
+  return canvas.toDataURL(format).startsWith(`data:${format}`)
+}
+
+// metadata is only written into these containers
+export function canKeepMetadata(format: ExportFormat) {
+  return format === 'image/jpeg' || format === 'image/png'
+}
+
+export function exportFileName(sourceName: string, format: ExportFormat) {
+  return `${baseName(sourceName)}-inpainted.${formatExtensions[format]}`
+}
+
+export async function exportImage(
+  image: HTMLImageElement | HTMLCanvasElement,
+  source: Blob,
+  { format, quality, keepMetadata }: ExportOptions
+) {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('could not get context')
+  }
+  if (format === 'image/jpeg') {
+    // JPEG has no alpha, transparent areas would turn black
+    ctx.fillStyle = 'white'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  ctx.drawImage(image, 0, 0)
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      b => (b ? resolve(b) : reject(new Error('Failed to encode the image'))),
+      format,
+      quality
+    )
+  })
+  if (!keepMetadata || !canKeepMetadata(format)) {
+    return blob
+  }
+  return writeMetadata(blob, await readMetadata(source))
+}
+
+function loadFullSize(file: Blob) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(img.src)
+      resolve(img)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src)
+      reject(new Error('Failed to load the full size image'))
+    }
+    img.src = URL.createObjectURL(file)
+  })
+}
+
+// whether every step is an inpainting whose mask was kept
+export function canRestoreResolution(renders: HTMLImageElement[]) {
+  return renders.every(render => {
+    const info = getRenderInfo(render)
+    return info?.operation === 'inpaint' && !!info.mask
+  })
+}
+
+/**
+ * Replay the edits on the full size upload: the part each inpainting replaced
+ * is taken from its render scaled up, everything else keeps the original
+ * pixels. Null when a step cannot be replayed this way, like an upscale
+ */
+export async function restoreResolution(
+  fullSize: Blob,
+  renders: HTMLImageElement[]
+) {
+  if (!canRestoreResolution(renders)) {
+    return null
+  }
+  const steps = renders.map(render => ({ render, info: getRenderInfo(render) }))
+  const image = await loadFullSize(fullSize)
+  const { width, height } = image
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('could not get context')
+  }
+  ctx.drawImage(image, 0, 0)
+
+  // one full size mask at a time
+  for (const { render, info } of steps) {
+    const { mask, refinement } = info as Required<RenderInfo>
+    const patch = document.createElement('canvas')
+    patch.width = width
+    patch.height = height
+    const patchCtx = patch.getContext('2d')!
+    patchCtx.drawImage(render, 0, 0, width, height)
+    patchCtx.globalCompositeOperation = 'destination-in'
+    patchCtx.drawImage(
+      await patchMask(mask, width, height, refinement, width / render.width),
+      0,
+      0
+    )
+    ctx.drawImage(patch, 0, 0)
+  }
+  return canvas
+}
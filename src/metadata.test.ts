@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { crc32 } from './archive'
+import { readMetadata, writeMetadata } from './metadata'
+
+function concat(parts: number[][]) {
+  return Uint8Array.from(parts.flat())
+}
+
+// little endian 16 and 32 bit values
+const u16 = (value: number) => [value % 256, Math.floor(value / 256)]
+const u32 = (value: number) => [
+  ...u16(value % 65536),
+  ...u16(Math.floor(value / 65536)),
+]
+const entry = (tag: number, type: number, value: number) => [
+  ...u16(tag),
+  ...u16(type),
+  ...u32(1),
+  ...u32(value),
+]
+
+// IFD0 at 8: width, orientation 6 and the Exif IFD pointer, then IFD1 at 50
+// for a 4 byte thumbnail at 80, the Exif IFD at 84 with PixelXDimension and
+// ExifVersion
+const exif = concat([
+  [0x49, 0x49, 0x2a, 0x00, ...u32(8)],
+  [...u16(3), ...entry(0x0100, 4, 640), ...entry(0x0112, 3, 6)],
+  [...entry(0x8769, 4, 84), ...u32(50)],
+  [...u16(2), ...entry(0x0201, 4, 80), ...entry(0x0202, 4, 4), ...u32(0)],
+  [0xff, 0xd8, 0xff, 0xd9],
+  [...u16(2), ...entry(0xa002, 4, 640), ...entry(0x9000, 7, 0x30333230)],
+  u32(0),
+])
+
+// the tags of the IFD at `offset` and the offset of the next one
+function readIfd(data: Uint8Array, offset: number) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const count = view.getUint16(offset, true)
+  const tags = Array.from({ length: count }, (_, i) =>
+    view.getUint16(offset + 2 + i * 12, true)
+  )
+  return { tags, next: view.getUint32(offset + 2 + count * 12, true) }
+}
+
+// a header and a description tag naming the color space, like ICC v2
+function iccProfile(description: string) {
+  const text = [...description, '\0'].map(c => c.charCodeAt(0))
+  const big32 = (value: number) => u32(value).reverse()
+  const header = Array.from({ length: 128 }, (_, i) =>
+    i >= 16 && i < 20 ? 'RGB '.charCodeAt(i - 16) : 0
+  )
+  return concat([
+    header,
+    big32(1),
+    [...'desc'].map(c => c.charCodeAt(0)),
+    big32(144),
+    big32(12 + text.length),
+    [...'desc'].map(c => c.charCodeAt(0)),
+    big32(0),
+    big32(text.length),
+    text,
+  ])
+}
+
+const icc = iccProfile('sRGB IEC61966-2.1')
+
+// SOI, a JFIF segment, the start of the scan and EOI
+const jpeg = concat([
+  [0xff, 0xd8],
+  [0xff, 0xe0, 0x00, 0x07, 0x4a, 0x46, 0x49, 0x46, 0x00],
+  [0xff, 0xda, 0x00, 0x04, 0x00, 0x00, 0x12, 0x34],
+  [0xff, 0xd9],
+])
+
+function pngChunk(type: string, body: number[]) {
+  const typed = [...type].map(c => c.charCodeAt(0)).concat(body)
+  const crc = crc32(Uint8Array.from(typed))
+  const length = body.length
+  return [
+    ...[24, 16, 8, 0].map(shift => Math.floor(length / 2 ** shift) % 256),
+    ...typed,
+    ...[24, 16, 8, 0].map(shift => Math.floor(crc / 2 ** shift) % 256),
+  ]
+}
+
+const png = concat([
+  [137, 80, 78, 71, 13, 10, 26, 10],
+  pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+  pngChunk('IDAT', [1, 2, 3]),
+  pngChunk('IEND', []),
+])
+
+describe('metadata', () => {
+  it('round-trips EXIF and ICC through a JPEG', async () => {
+    const image = new Blob([jpeg], { type: 'image/jpeg' })
+    const written = await writeMetadata(image, { exif, icc })
+    expect(written.type).toBe('image/jpeg')
+
+    const read = await readMetadata(written)
+    expect(read.icc).toEqual(icc)
+    expect(read.exif?.length).toBe(exif.length)
+
+    // written again, the segments are replaced rather than added
+    const rewritten = await writeMetadata(written, { exif, icc })
+    expect(rewritten.size).toBe(written.size)
+  })
+
+  it('round-trips EXIF and ICC through a PNG', async () => {
+    const image = new Blob([png], { type: 'image/png' })
+    const read = await readMetadata(await writeMetadata(image, { exif, icc }))
+    expect(read.icc).toEqual(icc)
+    expect(read.exif?.length).toBe(exif.length)
+  })
+
+  it('drops the orientation, dimensions and thumbnail of the upload', async () => {
+    const image = new Blob([png], { type: 'image/png' })
+    const { exif: written } = await readMetadata(
+      await writeMetadata(image, { exif })
+    )
+    const ifd0 = readIfd(written!, 8)
+    expect(ifd0).toEqual({ tags: [0x0112, 0x8769], next: 0 })
+    expect(written![8 + 2 + 8]).toBe(1)
+    expect(readIfd(written!, 84).tags).toEqual([0x9000])
+    // IFD1 and the thumbnail are blanked
+    expect(written!.subarray(50, 84).every(c => c === 0)).toBe(true)
+  })
+
+  it('only writes a profile for sRGB, the color space of the canvas', async () => {
+    const image = new Blob([jpeg], { type: 'image/jpeg' })
+    const p3 = iccProfile('Display P3')
+    expect(await writeMetadata(image, { icc: p3 })).toBe(image)
+    const read = await readMetadata(
+      await writeMetadata(image, { exif, icc: p3 })
+    )
+    expect(read.icc).toBeUndefined()
+    expect(read.exif).toBeDefined()
+  })
+
+  it('reads nothing from images without metadata', async () => {
+    expect(await readMetadata(new Blob([jpeg]))).toEqual({})
+    expect(await readMetadata(new Blob([png]))).toEqual({})
+  })
+})
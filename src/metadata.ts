@@ -0,0 +1,360 @@
+import { crc32 } from './archive'
+
+/**
+ * EXIF and ICC profiles of JPEG and PNG files. Canvas encoders drop both, so
+ * they are read from the upload and written back into exports
+ */
+export interface ImageMetadata {
+  // the TIFF structure of the EXIF block
+  exif?: Uint8Array
+  // uncompressed ICC profile
+  icc?: Uint8Array
+}
+
+const EXIF_HEADER = 'Exif\0\0'
+const ICC_HEADER = 'ICC_PROFILE\0'
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+// the largest JPEG segment, without its marker and length
+const MAX_SEGMENT = 65533
+const ORIENTATION_TAG = 0x0112
+const EXIF_IFD_TAG = 0x8769
+const THUMBNAIL_OFFSET_TAG = 0x0201
+const THUMBNAIL_LENGTH_TAG = 0x0202
+// ImageWidth and ImageLength of IFD0, PixelXDimension and PixelYDimension of
+// the Exif IFD
+const DIMENSION_TAGS = [0x0100, 0x0101, 0xa002, 0xa003]
+
+function ascii(text: string) {
+  return Uint8Array.from(text, c => c.charCodeAt(0))
+}
+
+function startsWith(data: Uint8Array, offset: number, text: string) {
+  return ascii(text).every((c, i) => data[offset + i] === c)
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(
+    parts.reduce((size, part) => size + part.length, 0)
+  )
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+) {
+  const output = new Blob([data]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function isJpeg(data: Uint8Array) {
+  return data[0] === 0xff && data[1] === 0xd8
+}
+
+function isPng(data: Uint8Array) {
+  return PNG_SIGNATURE.every((c, i) => data[i] === c)
+}
+
+interface JpegSegment {
+  marker: number
+  // of the marker
+  offset: number
+  // of the data after the length
+  start: number
+  end: number
+}
+
+// the segments before the start of the scan, and where the scan starts
+function jpegSegments(data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const segments: JpegSegment[] = []
+  let offset = 2
+  while (
+    offset + 4 <= data.length &&
+    data[offset] === 0xff &&
+    data[offset + 1] !== 0xda
+  ) {
+    const end = offset + 2 + view.getUint16(offset + 2)
+    segments.push({ marker: data[offset + 1], offset, start: offset + 4, end })
+    offset = end
+  }
+  return { segments, scan: offset }
+}
+
+function isExifSegment(data: Uint8Array, { marker, start }: JpegSegment) {
+  return marker === 0xe1 && startsWith(data, start, EXIF_HEADER)
+}
+
+function isIccSegment(data: Uint8Array, { marker, start }: JpegSegment) {
+  return marker === 0xe2 && startsWith(data, start, ICC_HEADER)
+}
+
+function readJpeg(data: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {}
+  const iccChunks: Uint8Array[] = []
+  jpegSegments(data).segments.forEach(segment => {
+    const { start, end } = segment
+    if (isExifSegment(data, segment)) {
+      metadata.exif = data.slice(start + EXIF_HEADER.length, end)
+    } else if (isIccSegment(data, segment)) {
+      // profiles larger than a segment are split, numbered from 1
+      const index = data[start + ICC_HEADER.length] - 1
+      iccChunks[index] = data.slice(start + ICC_HEADER.length + 2, end)
+    }
+  })
+  if (iccChunks.length) {
+    metadata.icc = concat(iccChunks.filter(Boolean))
+  }
+  return metadata
+}
+
+async function readPng(data: Uint8Array): Promise<ImageMetadata> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const metadata: ImageMetadata = {}
+  let compressedIcc: Uint8Array | undefined
+  let offset = PNG_SIGNATURE.length
+  // chunks up to the image data, both have to come before it
+  while (offset + 8 <= data.length && !startsWith(data, offset + 4, 'IDAT')) {
+    const length = view.getUint32(offset)
+    const start = offset + 8
+    if (startsWith(data, offset + 4, 'eXIf')) {
+      metadata.exif = data.slice(start, start + length)
+    } else if (startsWith(data, offset + 4, 'iCCP')) {
+      // profile name, null separator, compression method, zlib stream
+      const nameEnd = data.indexOf(0, start)
+      compressedIcc = data.slice(nameEnd + 2, start + length)
+    }
+    offset = start + length + 4
+  }
+  if (compressedIcc) {
+    metadata.icc = await transform(
+      compressedIcc,
+      new DecompressionStream('deflate')
+    )
+  }
+  return metadata
+}
+
+export async function readMetadata(file: Blob): Promise<ImageMetadata> {
+  const data = new Uint8Array(await file.arrayBuffer())
+  if (isJpeg(data)) {
+    return readJpeg(data)
+  }
+  if (isPng(data)) {
+    return readPng(data)
+  }
+  return {}
+}
+
+// the offset of the entry with `tag` in the IFD at `ifd`
+function findEntry(
+  view: DataView,
+  ifd: number,
+  littleEndian: boolean,
+  tag: number
+) {
+  const count = view.getUint16(ifd, littleEndian)
+  for (let i = 0; i < count; i += 1) {
+    const entry = ifd + 2 + i * 12
+    if (view.getUint16(entry, littleEndian) === tag) {
+      return entry
+    }
+  }
+  return undefined
+}
+
+// the offset of the next IFD when the one at `ifd` lies within the block
+function ifdEnd(view: DataView, ifd: number, littleEndian: boolean) {
+  if (ifd < 8 || ifd + 2 > view.byteLength) {
+    return undefined
+  }
+  const end = ifd + 2 + view.getUint16(ifd, littleEndian) * 12
+  return end + 4 <= view.byteLength ? end : undefined
+}
+
+// drop the entries with `tags`, the others move up and the IFD is followed
+// by `next`, or the IFD it pointed to
+function removeEntries(
+  exif: Uint8Array,
+  ifd: number,
+  end: number,
+  littleEndian: boolean,
+  tags: number[],
+  next?: number
+) {
+  const view = new DataView(exif.buffer)
+  const kept: Uint8Array[] = []
+  for (let entry = ifd + 2; entry < end; entry += 12) {
+    if (!tags.includes(view.getUint16(entry, littleEndian))) {
+      kept.push(exif.slice(entry, entry + 12))
+    }
+  }
+  const nextIfd = next ?? view.getUint32(end, littleEndian)
+  exif.fill(0, ifd, end + 4)
+  view.setUint16(ifd, kept.length, littleEndian)
+  kept.forEach((entry, i) => exif.set(entry, ifd + 2 + i * 12))
+  view.setUint32(ifd + 2 + kept.length * 12, nextIfd, littleEndian)
+}
+
+// The EXIF block as it fits the export: the pixels are already upright, a
+// copied orientation would turn them a second time, and the dimensions and
+// thumbnail of the upload would not match the edited image
+function cleanExif(exif: Uint8Array) {
+  const copy = new Uint8Array(exif)
+  if (copy.length < 8) {
+    return copy
+  }
+  const view = new DataView(copy.buffer)
+  const littleEndian = startsWith(copy, 0, 'II')
+  const ifd0 = view.getUint32(4, littleEndian)
+  const ifd0End = ifdEnd(view, ifd0, littleEndian)
+  if (ifd0End === undefined) {
+    return copy
+  }
+
+  const orientation = findEntry(view, ifd0, littleEndian, ORIENTATION_TAG)
+  if (orientation !== undefined) {
+    view.setUint16(orientation + 8, 1, littleEndian)
+  }
+
+  const pointer = findEntry(view, ifd0, littleEndian, EXIF_IFD_TAG)
+  const exifIfd =
+    pointer === undefined ? 0 : view.getUint32(pointer + 8, littleEndian)
+  const exifIfdEnd = ifdEnd(view, exifIfd, littleEndian)
+  if (exifIfdEnd !== undefined) {
+    removeEntries(copy, exifIfd, exifIfdEnd, littleEndian, DIMENSION_TAGS)
+  }
+
+  // IFD1 describes the thumbnail, it is blanked along with the thumbnail
+  const ifd1 = view.getUint32(ifd0End, littleEndian)
+  const ifd1End = ifdEnd(view, ifd1, littleEndian)
+  if (ifd1End !== undefined) {
+    const start = findEntry(view, ifd1, littleEndian, THUMBNAIL_OFFSET_TAG)
+    const length = findEntry(view, ifd1, littleEndian, THUMBNAIL_LENGTH_TAG)
+    if (start !== undefined && length !== undefined) {
+      const offset = view.getUint32(start + 8, littleEndian)
+      copy.fill(0, offset, offset + view.getUint32(length + 8, littleEndian))
+    }
+    copy.fill(0, ifd1, ifd1End + 4)
+  }
+
+  removeEntries(copy, ifd0, ifd0End, littleEndian, DIMENSION_TAGS, 0)
+  return copy
+}
+
+// Canvas pixels are sRGB whatever the upload was tagged with, any other
+// profile would shift the colors of the export. Profiles name their color
+// space in the description tag, ASCII in v2 and UTF-16 in v4
+function isSrgbProfile(icc: Uint8Array) {
+  if (icc.length < 132 || !startsWith(icc, 16, 'RGB ')) {
+    return false
+  }
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength)
+  const count = view.getUint32(128)
+  for (let i = 0; i < count; i += 1) {
+    const tag = 132 + i * 12
+    if (tag + 12 <= icc.length && startsWith(icc, tag, 'desc')) {
+      const offset = view.getUint32(tag + 4)
+      const text = icc
+        .subarray(offset, offset + view.getUint32(tag + 8))
+        .filter(c => c !== 0)
+      return String.fromCharCode(...text).includes('sRGB')
+    }
+  }
+  return false
+}
+
+function jpegSegment(marker: number, header: string, body: Uint8Array) {
+  const segment = new Uint8Array(4 + header.length + body.length)
+  segment[0] = 0xff
+  segment[1] = marker
+  new DataView(segment.buffer).setUint16(2, segment.length - 2)
+  segment.set(ascii(header), 4)
+  segment.set(body, 4 + header.length)
+  return segment
+}
+
+function writeJpeg(data: Uint8Array, { exif, icc }: ImageMetadata) {
+  const segments: Uint8Array[] = []
+  if (exif && EXIF_HEADER.length + exif.length <= MAX_SEGMENT) {
+    segments.push(jpegSegment(0xe1, EXIF_HEADER, cleanExif(exif)))
+  }
+  if (icc) {
+    const size = MAX_SEGMENT - ICC_HEADER.length - 2
+    const count = Math.ceil(icc.length / size)
+    for (let i = 0; i < count && count < 256; i += 1) {
+      segments.push(
+        jpegSegment(
+          0xe2,
+          ICC_HEADER,
+          concat([
+            Uint8Array.of(i + 1, count),
+            icc.subarray(i * size, (i + 1) * size),
+          ])
+        )
+      )
+    }
+  }
+  // replace what the image has, right after the JFIF segment
+  const { segments: existing, scan } = jpegSegments(data)
+  const parts = [data.subarray(0, 2)]
+  existing.forEach(segment => {
+    if (!isExifSegment(data, segment) && !isIccSegment(data, segment)) {
+      parts.push(data.subarray(segment.offset, segment.end))
+      if (segment.marker === 0xe0) {
+        parts.push(...segments)
+      }
+    }
+  })
+  if (!existing.some(({ marker }) => marker === 0xe0)) {
+    parts.splice(1, 0, ...segments)
+  }
+  return concat([...parts, data.subarray(scan)])
+}
+
+function pngChunk(type: string, body: Uint8Array) {
+  const chunk = new Uint8Array(12 + body.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, body.length)
+  chunk.set(ascii(type), 4)
+  chunk.set(body, 8)
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)))
+  return chunk
+}
+
+async function writePng(data: Uint8Array, { exif, icc }: ImageMetadata) {
+  const chunks: Uint8Array[] = []
+  if (icc) {
+    const compressed = await transform(icc, new CompressionStream('deflate'))
+    chunks.push(
+      pngChunk('iCCP', concat([ascii('ICC profile\0\0'), compressed]))
+    )
+  }
+  if (exif) {
+    chunks.push(pngChunk('eXIf', cleanExif(exif)))
+  }
+  // right after IHDR, which always comes first
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const offset = PNG_SIGNATURE.length + 12 + view.getUint32(8)
+  return concat([data.subarray(0, offset), ...chunks, data.subarray(offset)])
+}
+
+export async function writeMetadata(image: Blob, { exif, icc }: ImageMetadata) {
+  const metadata = { exif, icc: icc && isSrgbProfile(icc) ? icc : undefined }
+  if (!metadata.exif && !metadata.icc) {
+    return image
+  }
+  const data = new Uint8Array(await image.arrayBuffer())
+  if (isJpeg(data)) {
+    return new Blob([writeJpeg(data, metadata)], { type: image.type })
+  }
+  if (isPng(data)) {
+    return new Blob([await writePng(data, metadata)], { type: image.type })
+  }
+  return image
+}
@@ -0,0 +1,71 @@
+// onnxruntime-web is injected as a script tag (see loadingOnnxruntime), these
+// are the parts of its `ort` global the adapters rely on
+declare namespace ort {
+  type TensorData =
+    | Float32Array
+    | Uint8Array
+    | Int8Array
+    | Int32Array
+    | Uint16Array
+    | Int16Array
+    | Float64Array
+
+  class Tensor {
+    // int64 inputs take a BigInt64Array, outputs read here are never int64
+    constructor(
+      type: string,
+      data: TensorData | BigInt64Array,
+      dims: readonly number[]
+    )
+
+    readonly type: string
+
+    readonly data: TensorData
+
+    readonly dims: readonly number[]
+
+    dispose(): void
+  }
+
+  namespace InferenceSession {
+    interface SessionOptions {
+      executionProviders?: string[]
+      graphOptimizationLevel?: 'disabled' | 'basic' | 'extended' | 'all'
+      executionMode?: 'sequential' | 'parallel'
+      enableCpuMemArena?: boolean
+      enableMemPattern?: boolean
+    }
+  }
+
+  class InferenceSession {
+    static create(
+      model: ArrayBuffer | Uint8Array | string,
+      options?: InferenceSession.SessionOptions
+    ): Promise<InferenceSession>
+
+    readonly inputNames: readonly string[]
+
+    readonly outputNames: readonly string[]
+
+    run(feeds: Record<string, Tensor>): Promise<Record<string, Tensor>>
+
+    release(): Promise<void>
+  }
+
+  const env: {
+    debug?: boolean
+    logLevel?: string
+    wasm: {
+      wasmPaths?: string
+      numThreads?: number
+      simd?: boolean
+      proxy?: boolean
+      initTimeout?: number
+    }
+    webgpu: {
+      powerPreference?: 'low-power' | 'high-performance'
+      forceFallbackAdapter?: boolean
+      profilingMode?: string
+    }
+  }
+}
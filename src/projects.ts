@@ -0,0 +1,338 @@
+import localforage from 'localforage'
+import type { MaskRefinement } from './adapters/mask'
+import { scaleLines } from './shapes'
+import type { Line } from './shapes'
+import { dataURItoBlob } from './utils'
+
+/**
+ * Editing sessions saved to IndexedDB so a reload or crash loses nothing.
+ * Renders are stored once each under their own key, the project record only
+ * references them. Strokes are stored in fractions of the canvas width since
+ * the canvas is sized to the window
+ */
+const store = localforage.createInstance({ name: 'projects' })
+
+// most recent first
+const INDEX_KEY = 'index'
+const MAX_PROJECTS = 10
+const THUMBNAIL_SIZE = 160
+// the project being edited, restored on the next load
+const LAST_PROJECT_KEY = 'lastProject'
+
+export interface ProjectSettings {
+  brushSize: number
+  maskRefinement: MaskRefinement
+  autoRun: boolean
+  // inpaint large regions at the model's resolution, missing in older projects
+  downscale?: boolean
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  updatedAt: number
+  // small JPEG data URL of the latest render
+  thumbnail: string
+}
+
+// how a render in the history strip was made
+export interface RenderInfo {
+  operation: 'inpaint' | 'upscale'
+  model: string
+  refinement?: MaskRefinement
+  // PNG of the mask sent to the model, white = removed
+  mask?: Blob
+}
+
+// raster selections are kept as PNG
+export type StoredLine = Omit<Line, 'mask'> & { mask?: Blob }
+
+interface StoredRender {
+  // data-id of the render
+  id: string
+  info?: RenderInfo
+}
+
+interface StoredProject {
+  sourceName: string
+  sourceType: string
+  renders: StoredRender[]
+  lines: StoredLine[]
+  pendingLines: StoredLine[]
+  settings: ProjectSettings
+}
+
+export interface ProjectState {
+  source: File
+  // the upload before it was scaled down for editing
+  fullSize?: File
+  renders: HTMLImageElement[]
+  lines: Line[]
+  pendingLines: Line[]
+  settings: ProjectSettings
+  // width of the canvas the strokes were drawn on
+  canvasWidth: number
+}
+
+export interface LoadedProject {
+  id: string
+  source: File
+  fullSize?: File
+  renders: HTMLImageElement[]
+  // in fractions of the canvas width
+  lines: Line[]
+  pendingLines: Line[]
+  settings: ProjectSettings
+}
+
+const sourceKey = (id: string) => `${id}:source`
+const fullSizeKey = (id: string) => `${id}:fullSize`
+const projectKey = (id: string) => `${id}:project`
+const renderKey = (id: string, renderId: string) => `${id}:render:${renderId}`
+
+// keys written in this session, renders never change once made
+const stored = new Set<string>()
+const maskBlobs = new WeakMap<HTMLCanvasElement, Blob>()
+const renderInfos = new WeakMap<HTMLImageElement, RenderInfo>()
+
+export function getRenderInfo(render: HTMLImageElement) {
+  return renderInfos.get(render)
+}
+
+export function setRenderInfo(render: HTMLImageElement, info: RenderInfo) {
+  renderInfos.set(render, info)
+}
+
+export function newProjectId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function getLastProjectId() {
+  return localStorage.getItem(LAST_PROJECT_KEY)
+}
+
+export function setLastProjectId(id?: string) {
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id)
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY)
+  }
+}
+
+export async function listProjects() {
+  return (await store.getItem<ProjectSummary[]>(INDEX_KEY)) ?? []
+}
+
+async function maskToBlob(mask: HTMLCanvasElement) {
+  const cached = maskBlobs.get(mask)
+  if (cached) {
+    return cached
+  }
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    mask.toBlob(b => (b ? resolve(b) : reject(new Error('empty mask'))))
+  })
+  maskBlobs.set(mask, blob)
+  return blob
+}
+
+export function blobToCanvas(blob: Blob) {
+  return new Promise<HTMLCanvasElement>((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = img.width
+      canvas.height = img.height
+      canvas.getContext('2d')?.drawImage(img, 0, 0)
+      URL.revokeObjectURL(img.src)
+      maskBlobs.set(canvas, blob)
+      resolve(canvas)
+    }
+    img.onerror = () => reject(new Error('Failed to load a stored mask'))
+    img.src = URL.createObjectURL(blob)
+  })
+}
+
+export function blobToImage(blob: Blob) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      // renders are data URLs everywhere else
+      const img = new Image()
+      img.onload = () => resolve(img)
+      img.onerror = () => reject(new Error('Failed to load a stored render'))
+      img.src = reader.result as string
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export function storeLines(lines: Line[], scale: number) {
+  return Promise.all(
+    scaleLines(lines, scale).map(
+      async ({ mask, ...line }): Promise<StoredLine> =>
+        mask ? { ...line, mask: await maskToBlob(mask) } : line
+    )
+  )
+}
+
+export function restoreLines(lines: StoredLine[]) {
+  return Promise.all(
+    lines.map(
+      async ({ mask, ...line }): Promise<Line> =>
+        mask ? { ...line, mask: await blobToCanvas(mask) } : line
+    )
+  )
+}
+
+function thumbnail(image: HTMLImageElement) {
+  const scale = Math.min(
+    1,
+    THUMBNAIL_SIZE / Math.max(image.width, image.height)
+  )
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(image.width * scale)
+  canvas.height = Math.round(image.height * scale)
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
+
+export async function deleteProject(id: string) {
+  const keys = await store.keys()
+  await Promise.all(
+    keys
+      .filter(key => key.startsWith(`${id}:`))
+      .map(key => {
+        stored.delete(key)
+        return store.removeItem(key)
+      })
+  )
+  const index = await listProjects()
+  await store.setItem(
+    INDEX_KEY,
+    index.filter(project => project.id !== id)
+  )
+  if (getLastProjectId() === id) {
+    setLastProjectId()
+  }
+}
+
+export async function saveProject(
+  id: string,
+  {
+    source,
+    fullSize,
+    renders,
+    lines,
+    pendingLines,
+    settings,
+    canvasWidth,
+  }: ProjectState
+) {
+  if (!stored.has(sourceKey(id))) {
+    await store.setItem(sourceKey(id), source)
+    stored.add(sourceKey(id))
+  }
+  if (fullSize && !stored.has(fullSizeKey(id))) {
+    await store.setItem(fullSizeKey(id), fullSize)
+    stored.add(fullSizeKey(id))
+  }
+  const renderIds = renders.map(render => render.dataset.id ?? '')
+  for (const render of renders) {
+    const key = renderKey(id, render.dataset.id ?? '')
+    if (!stored.has(key)) {
+      await store.setItem(key, dataURItoBlob(render.src))
+      stored.add(key)
+    }
+  }
+  // drop renders no longer in the history strip
+  const keys = await store.keys()
+  await Promise.all(
+    keys
+      .filter(
+        key =>
+          key.startsWith(`${id}:render:`) &&
+          !renderIds.some(renderId => key === renderKey(id, renderId))
+      )
+      .map(key => {
+        stored.delete(key)
+        return store.removeItem(key)
+      })
+  )
+
+  const scale = 1 / canvasWidth
+  const project: StoredProject = {
+    sourceName: source.name,
+    sourceType: source.type,
+    renders: renders.map(render => ({
+      id: render.dataset.id ?? '',
+      info: getRenderInfo(render),
+    })),
+    lines: await storeLines(lines, scale),
+    pendingLines: await storeLines(pendingLines, scale),
+    settings,
+  }
+  await store.setItem(projectKey(id), project)
+
+  const latest = renders[renders.length - 1]
+  const index = await listProjects()
+  const others = index.filter(p => p.id !== id)
+  const summary: ProjectSummary = {
+    id,
+    name: source.name,
+    updatedAt: Date.now(),
+    thumbnail: latest
+      ? thumbnail(latest)
+      : index.find(p => p.id === id)?.thumbnail ??
+        thumbnail(await blobToImage(source)),
+  }
+  const next = [summary, ...others]
+  await store.setItem(INDEX_KEY, next.slice(0, MAX_PROJECTS))
+  await Promise.all(
+    next.slice(MAX_PROJECTS).map(project => deleteProject(project.id))
+  )
+}
+
+export async function loadProject(id: string): Promise<LoadedProject | null> {
+  const [source, project, fullSize] = await Promise.all([
+    store.getItem<Blob>(sourceKey(id)),
+    store.getItem<StoredProject>(projectKey(id)),
+    store.getItem<Blob>(fullSizeKey(id)),
+  ])
+  if (!source || !project) {
+    return null
+  }
+  const renders = await Promise.all(
+    project.renders.map(async ({ id: renderId, info }) => {
+      const key = renderKey(id, renderId)
+      const blob = await store.getItem<Blob>(key)
+      if (!blob) {
+        throw new Error(`render ${renderId} of project ${id} is missing`)
+      }
+      stored.add(key)
+      const render = await blobToImage(blob)
+      render.dataset.id = renderId
+      if (info) {
+        setRenderInfo(render, info)
+      }
+      return render
+    })
+  )
+  stored.add(sourceKey(id))
+  if (fullSize) {
+    stored.add(fullSizeKey(id))
+  }
+  return {
+    id,
+    source: new File([source], project.sourceName, {
+      type: project.sourceType,
+    }),
+    fullSize: fullSize
+      ? new File([fullSize], project.sourceName, { type: fullSize.type })
+      : undefined,
+    renders,
+    lines: await restoreLines(project.lines),
+    pendingLines: await restoreLines(project.pendingLines),
+    settings: project.settings,
+  }
+}
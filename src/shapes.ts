@@ -0,0 +1,246 @@
+export const shapeTools = [
+  'brush',
+  'rectangle',
+  'ellipse',
+  'lasso',
+  'polygon',
+] as const
+
+export type shapeTool = (typeof shapeTools)[number]
+
+// tools that are not vector shapes, the magic wand and segmentation select a
+// raster region
+export type maskTool = shapeTool | 'wand' | 'segment'
+
+export interface Point {
+  x: number
+  y: number
+  // a segmentation click that excludes the area around it
+  negative?: boolean
+}
+
+/**
+ * One edit of the mask. Brush strokes are stroked `size` wide, the other tools
+ * are filled regions:
+ * - rectangle / ellipse: pts are two opposite corners of the bounding box
+ * - lasso: the freehand outline, closed automatically
+ * - polygon: the placed vertices
+ * - wand: `mask` holds the selection at image resolution, pts the clicked
+ *   point
+ * - segment: `mask` holds the predicted object, pts the clicks it came from
+ * - import: `mask` holds a mask loaded from a file, no pts
+ */
+export interface Line {
+  // brush when missing
+  tool?: maskTool | 'import'
+  size?: number
+  pts: Point[]
+  src?: string
+  // subtracts from the mask instead of adding to it
+  erase?: boolean
+  // a polygon takes no more vertices
+  closed?: boolean
+  // white on transparent, stretched over the canvas
+  mask?: HTMLCanvasElement
+}
+
+// distance within which a click on the first vertex closes a polygon
+export const POLYGON_CLOSE_DISTANCE = 10
+
+/**
+ * Extend a brush stroke or lasso with a point, or move the dragged corner of a
+ * rectangle or ellipse
+ */
+export function addPoint(line: Line, pt: Point) {
+  if (line.tool === 'rectangle' || line.tool === 'ellipse') {
+    line.pts.splice(1, 1, pt)
+  } else {
+    line.pts.push(pt)
+  }
+}
+
+// lines drawn from their raster mask rather than their points
+function isSelection(line: Line) {
+  return (
+    line.tool === 'wand' || line.tool === 'segment' || line.tool === 'import'
+  )
+}
+
+// whether a line has enough points to cover anything
+export function isDrawable(line: Line) {
+  if (isSelection(line)) {
+    return !!line.mask
+  }
+  if (line.tool === 'rectangle' || line.tool === 'ellipse') {
+    return line.pts.length === 2
+  }
+  if (line.tool === 'lasso' || line.tool === 'polygon') {
+    return line.pts.length >= 3
+  }
+  return line.pts.length > 0
+}
+
+export function isClosingPoint(
+  line: Line,
+  pt: Point,
+  distance = POLYGON_CLOSE_DISTANCE
+) {
+  const [first] = line.pts
+  return (
+    line.pts.length >= 3 &&
+    Math.hypot(pt.x - first.x, pt.y - first.y) <= distance
+  )
+}
+
+export function scaleLines(lines: Line[], scale: number): Line[] {
+  return lines.map(line => ({
+    ...line,
+    size: line.size && line.size * scale,
+    pts: line.pts.map(pt => ({ ...pt, x: pt.x * scale, y: pt.y * scale })),
+  }))
+}
+
+function traceRegion(ctx: CanvasRenderingContext2D, line: Line) {
+  const [start, end = start] = line.pts
+  ctx.beginPath()
+  if (line.tool === 'rectangle') {
+    ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y)
+  } else if (line.tool === 'ellipse') {
+    ctx.ellipse(
+      (start.x + end.x) / 2,
+      (start.y + end.y) / 2,
+      Math.abs(end.x - start.x) / 2,
+      Math.abs(end.y - start.y) / 2,
+      0,
+      0,
+      2 * Math.PI
+    )
+  } else {
+    ctx.moveTo(start.x, start.y)
+    line.pts.forEach(pt => ctx.lineTo(pt.x, pt.y))
+    ctx.closePath()
+  }
+}
+
+function drawSelection(
+  ctx: CanvasRenderingContext2D,
+  mask: HTMLCanvasElement | undefined,
+  color: string
+) {
+  if (!mask) {
+    return
+  }
+  const { width, height } = ctx.canvas
+  const layer = document.createElement('canvas')
+  layer.width = width
+  layer.height = height
+  const layerCtx = layer.getContext('2d')!
+  layerCtx.drawImage(mask, 0, 0, width, height)
+  layerCtx.globalCompositeOperation = 'source-in'
+  layerCtx.fillStyle = color
+  layerCtx.fillRect(0, 0, width, height)
+  ctx.drawImage(layer, 0, 0)
+}
+
+/**
+ * Rasterize strokes and shapes, erasing ones cut out of what is already drawn
+ */
+export function drawLines(
+  ctx: CanvasRenderingContext2D,
+  lines: Line[],
+  color = 'rgba(255, 0, 0, 0.5)'
+) {
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+
+  lines.forEach(line => {
+    if (!line?.pts.length && !line?.mask) {
+      return
+    }
+    ctx.globalCompositeOperation = line.erase
+      ? 'destination-out'
+      : 'source-over'
+    if (isSelection(line)) {
+      drawSelection(ctx, line.mask, color)
+      return
+    }
+    if (line.tool && line.tool !== 'brush') {
+      traceRegion(ctx, line)
+      ctx.fill()
+      return
+    }
+    if (!line.size) {
+      return
+    }
+    ctx.lineWidth = line.size
+    ctx.beginPath()
+    ctx.moveTo(line.pts[0].x, line.pts[0].y)
+    line.pts.forEach(pt => ctx.lineTo(pt.x, pt.y))
+    ctx.stroke()
+  })
+  ctx.globalCompositeOperation = 'source-over'
+}
+
+/**
+ * Read a mask made in another tool, white = masked and black or transparent =
+ * kept, into the white on transparent canvas lines hold, at the given size
+ */
+export function loadMask(file: Blob, width: number, height: number) {
+  return new Promise<HTMLCanvasElement>((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(img.src)
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const ctx = canvas.getContext('2d')!
+      ctx.drawImage(img, 0, 0, width, height)
+      const imageData = ctx.getImageData(0, 0, width, height)
+      const { data } = imageData
+      for (let i = 0; i < data.length; i += 4) {
+        const luminance =
+          0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+        data[i + 3] = Math.round((luminance * data[i + 3]) / 255)
+        data[i] = 255
+        data[i + 1] = 255
+        data[i + 2] = 255
+      }
+      ctx.putImageData(imageData, 0, 0)
+      resolve(canvas)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src)
+      reject(new Error('Failed to load the mask image'))
+    }
+    img.src = URL.createObjectURL(file)
+  })
+}
+
+// draw strokes over the image on their own layer, so erasing only removes
+// strokes and not the image below
+export function drawStrokes(ctx: CanvasRenderingContext2D, lines: Line[]) {
+  const layer = document.createElement('canvas')
+  layer.width = ctx.canvas.width
+  layer.height = ctx.canvas.height
+  drawLines(layer.getContext('2d')!, lines)
+  ctx.drawImage(layer, 0, 0)
+}
+
+// mark segmentation clicks, green selects and red excludes
+export function drawPrompts(ctx: CanvasRenderingContext2D, lines: Line[]) {
+  lines
+    .filter(line => line?.tool === 'segment')
+    .forEach(line =>
+      line.pts.forEach(pt => {
+        ctx.beginPath()
+        ctx.arc(pt.x, pt.y, 5, 0, 2 * Math.PI)
+        ctx.fillStyle = pt.negative ? '#ef4444' : '#22c55e'
+        ctx.fill()
+        ctx.lineWidth = 2
+        ctx.strokeStyle = 'white'
+        ctx.stroke()
+      })
+    )
+}
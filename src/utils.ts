@@ -43,6 +43,18 @@ export function downloadImage(uri: string, name: string) {
   }, 100)
 }
 
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob)
+  downloadImage(url, name)
+  // revoked once the download has started
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// file name without its extension
+export function baseName(name: string) {
+  return name.replace(/\.[^.]+$/, '')
+}
+
 export function loadImage(image: HTMLImageElement, src: string) {
   return new Promise((resolve, reject) => {
     const initSRC = image.src
@@ -132,11 +144,11 @@ export function resizeImageFile(
       throw new Error('could not get context')
     }
     canvas.getContext('2d')?.drawImage(image, 0, 0, width, height)
-    const dataUrl = canvas.toDataURL('image/jpeg')
+    // PNG stays lossless and keeps its transparency
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg'
+    const dataUrl = canvas.toDataURL(type)
     const blob = dataURItoBlob(dataUrl)
-    const f = new File([blob], file.name, {
-      type: file.type,
-    })
+    const f = new File([blob], file.name, { type })
     return {
       file: f,
       resized: true,
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MODEL_BASE_URL?: string
+  readonly VITE_RUNTIME_BASE_URL?: string
+}
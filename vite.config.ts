@@ -6,6 +6,10 @@ import react from '@vitejs/plugin-react-swc'
 export default defineConfig({
   base: '/',
   plugins: [react()],
+  // the inference worker is a module worker, keep it ES in builds too
+  worker: {
+    format: 'es',
+  },
   test: {
     globals: true,
     environment: 'jsdom',